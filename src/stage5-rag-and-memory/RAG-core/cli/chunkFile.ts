@@ -0,0 +1,27 @@
+import { Document } from '@langchain/core/documents'
+import * as fs from 'fs'
+import * as path from 'path'
+
+/**
+ * Staged chunks, one JSON document per line. `ingest` writes them, `index` embeds them,
+ * and hybrid queries use them as the keyword corpus.
+ */
+export const readChunks = (filePath: string): Document[] => {
+  if (!fs.existsSync(filePath)) return []
+  return fs
+    .readFileSync(filePath, 'utf8')
+    .split('\n')
+    .filter((line) => line.trim())
+    .map((line) => {
+      const { id, pageContent, metadata } = JSON.parse(line)
+      return new Document({ id, pageContent, metadata })
+    })
+}
+
+export const writeChunks = (filePath: string, chunks: Document[]) => {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true })
+  const tmpPath = `${filePath}.tmp`
+  const lines = chunks.map((c) => JSON.stringify({ id: c.id, pageContent: c.pageContent, metadata: c.metadata }))
+  fs.writeFileSync(tmpPath, lines.length ? `${lines.join('\n')}\n` : '')
+  fs.renameSync(tmpPath, filePath)
+}
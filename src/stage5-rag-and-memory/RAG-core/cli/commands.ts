@@ -0,0 +1,228 @@
+import { Document } from '@langchain/core/documents'
+import * as fs from 'fs'
+import * as path from 'path'
+
+import { chunkDocuments } from '../document-ingestion/chunker'
+import { loadFile, loadLocalDocuments } from '../document-ingestion/fileLoader'
+import { preprocessDocuments } from '../document-ingestion/preprocessor'
+import { loadFromUrls } from '../document-ingestion/urlLoader'
+import { EmbeddingService } from '../embeddings/embeddingService'
+import { Retriever } from '../retriever/retriever'
+import type { RetrievalMode } from '../retriever/types'
+import type { MetadataFilter, VectorStoreType } from '../vector-store/types'
+import { namespacedPath } from '../vector-store/namespace'
+import { VectorStoreManager } from '../vector-store/vectorStoreManager'
+import { readChunks, writeChunks } from './chunkFile'
+import type { RagCliConfig } from './config'
+
+export const STORE_TYPES: VectorStoreType[] = ['memory', 'faiss', 'chroma', 'pinecone']
+export const RETRIEVAL_MODES: RetrievalMode[] = ['similarity', 'mmr', 'hybrid']
+
+const isUrl = (target: string) => /^https?:\/\//i.test(target)
+
+// Each namespace stages its own chunks
+const chunksPath = (config: RagCliConfig) => namespacedPath(config.chunksPath, config.store.namespace)
+
+const createEmbeddingService = (config: RagCliConfig) => {
+  const { provider, cacheFile, ...opts } = config.embeddings
+  return new EmbeddingService(provider, { ...opts, cacheEnabled: !!cacheFile, cacheFile })
+}
+
+/**
+ * Open the vector store without loading anything into it
+ */
+const openStore = async (config: RagCliConfig, type: VectorStoreType): Promise<VectorStoreManager> => {
+  if (type !== 'memory' && config.embeddings.provider !== 'openai') {
+    throw new Error(`The ${type} store embeds with OpenAI; set embeddings.provider to "openai" in the config`)
+  }
+  const store = new VectorStoreManager(type, {
+    persistPath: type === 'faiss' ? config.store.faissPath : config.store.memoryPath,
+    collectionName: config.store.collectionName,
+    indexName: config.store.indexName,
+    embeddingService: type === 'memory' ? createEmbeddingService(config) : undefined,
+    embeddingModel: config.embeddings.model,
+    namespace: config.store.namespace,
+  })
+  // FAISS refuses to init without an index on disk or documents; it builds lazily on the first add instead
+  if (type !== 'faiss' || fs.existsSync(namespacedPath(config.store.faissPath, config.store.namespace))) {
+    await store.init()
+  }
+  return store
+}
+
+/**
+ * Accepts JSON (`{"type":"pdf","page":{"$gte":2}}`) or `key=value` pairs; numbers and booleans are coerced
+ */
+export const parseFilter = (values: string[]): MetadataFilter | undefined => {
+  if (values.length === 0) return undefined
+  if (values.length === 1 && values[0].trim().startsWith('{')) return JSON.parse(values[0])
+
+  const filter: MetadataFilter = {}
+  for (const pair of values) {
+    const separator = pair.indexOf('=')
+    if (separator <= 0) throw new Error(`Invalid filter "${pair}", expected key=value or a JSON object`)
+    const raw = pair.slice(separator + 1)
+    filter[pair.slice(0, separator)] =
+      raw === 'true' || raw === 'false' ? raw === 'true' : /^-?\d+(\.\d+)?$/.test(raw) ? Number(raw) : raw
+  }
+  return filter
+}
+
+/**
+ * Load → preprocess → chunk the targets, replacing any chunks staged earlier for the same sources.
+ * A directory target also drops staged chunks of files that no longer exist under it.
+ */
+export const ingest = async (config: RagCliConfig, targets: string[]) => {
+  if (targets.length === 0) throw new Error('ingest needs at least one directory, file or URL')
+
+  const urls = targets.filter(isUrl)
+  const localPaths = targets.filter((t) => !isUrl(t)).map((t) => path.resolve(t))
+  const docs: Document[] = []
+  const replacedDirs: string[] = []
+
+  for (const localPath of localPaths) {
+    if (!fs.existsSync(localPath)) throw new Error(`Path not found: ${localPath}`)
+    if (fs.statSync(localPath).isDirectory()) {
+      docs.push(...(await loadLocalDocuments(localPath, config.load)))
+      replacedDirs.push(localPath + path.sep)
+    } else {
+      docs.push(...(await loadFile(localPath)))
+    }
+  }
+  if (urls.length > 0) docs.push(...(await loadFromUrls(urls, config.crawl)))
+
+  const { documents, dropped } = await preprocessDocuments(docs, config.preprocess)
+  dropped.forEach((d) => console.log(`Dropped ${d.source}: ${d.reason}${d.duplicateOf ? ` of ${d.duplicateOf}` : ''}`))
+  const embeddingService = config.chunking.strategy === 'semantic' ? createEmbeddingService(config) : undefined
+  const chunks = await chunkDocuments(documents, { ...config.chunking, embeddingService })
+
+  const loadedSources = new Set(docs.map((d) => String(d.metadata?.source)))
+  const isReplaced = (source: string) => loadedSources.has(source) || replacedDirs.some((dir) => source.startsWith(dir))
+  const kept = readChunks(chunksPath(config)).filter((c) => !isReplaced(String(c.metadata?.source)))
+  writeChunks(chunksPath(config), [...kept, ...chunks])
+
+  console.log(
+    `Staged ${chunks.length} chunks from ${loadedSources.size} sources (${kept.length + chunks.length} total). ` +
+      'Run `index` to embed them into the vector store.',
+  )
+}
+
+/**
+ * Rebuild the vector store from the staged chunks
+ */
+export const index = async (config: RagCliConfig, type: VectorStoreType) => {
+  const chunks = readChunks(chunksPath(config))
+  if (chunks.length === 0) throw new Error(`No staged chunks in ${chunksPath(config)}; run \`ingest\` first`)
+
+  const store = await openStore(config, type)
+  await store.deleteAll()
+  await store.addDocuments(chunks)
+  await store.persist()
+  console.log(`Indexed ${chunks.length} chunks into the ${type} store (${await store.count()} vectors)`)
+}
+
+export interface QueryOptions {
+  k: number
+  mode: RetrievalMode
+  filter?: MetadataFilter
+  minScore?: number
+  json: boolean
+}
+
+export const query = async (config: RagCliConfig, type: VectorStoreType, question: string, opts: QueryOptions) => {
+  if (!question.trim()) throw new Error('query needs a question')
+  const store = await openStore(config, type)
+  if ((await store.count()) === 0) throw new Error(`The ${type} store is empty; run \`index\` first`)
+
+  const retriever = new Retriever(store, {
+    ...config.retrieval,
+    documents: opts.mode === 'hybrid' ? readChunks(chunksPath(config)) : undefined,
+  })
+  const results = await retriever.retrieve(question, {
+    mode: opts.mode,
+    k: opts.k,
+    filter: opts.filter,
+    minScore: opts.minScore,
+  })
+
+  if (opts.json) {
+    console.log(JSON.stringify(results, null, 2))
+    return
+  }
+  if (results.length === 0) console.log('No results.')
+  results.forEach((r, i) => {
+    const { source = 'unknown', chunkIndex } = r.metadata ?? {}
+    const preview = r.text.replace(/\s+/g, ' ').slice(0, 200)
+    console.log(`#${i + 1} ${r.score.toFixed(3)} ${source}${chunkIndex === undefined ? '' : ` [chunk ${chunkIndex}]`}`)
+    console.log(`   ${preview}${r.text.length > 200 ? '…' : ''}`)
+  })
+}
+
+export const stats = async (config: RagCliConfig, type: VectorStoreType, configFile?: string) => {
+  const chunks = readChunks(chunksPath(config))
+  const sources = new Set(chunks.map((c) => String(c.metadata?.source)))
+  const byType = new Map<string, number>()
+  chunks.forEach((c) => byType.set(c.metadata?.type ?? 'text', (byType.get(c.metadata?.type ?? 'text') ?? 0) + 1))
+  const { provider, model } = config.embeddings
+
+  console.log(`Config:     ${configFile ?? '(defaults)'}`)
+  console.log(`Namespace:  ${config.store.namespace ?? '(default)'}`)
+  console.log(`Embeddings: ${provider}${model ? ` / ${model}` : ''}`)
+  console.log(`Chunking:   ${config.chunking.strategy} ${config.chunking.chunkSize}/${config.chunking.chunkOverlap}`)
+  console.log(`Staged:     ${chunks.length} chunks from ${sources.size} sources (${chunksPath(config)})`)
+  byType.forEach((count, docType) => console.log(`  ${docType}: ${count}`))
+  try {
+    const store = await openStore(config, type)
+    console.log(`Store:      ${type}, ${await store.count()} vectors`)
+  } catch (err) {
+    console.log(`Store:      ${type}, unavailable (${err instanceof Error ? err.message : String(err)})`)
+  }
+}
+
+/**
+ * Delete every vector from the store and, unless `keepChunks`, the staged chunks too
+ */
+export const clear = async (config: RagCliConfig, type: VectorStoreType, keepChunks: boolean) => {
+  const store = await openStore(config, type)
+  const count = await store.count()
+  await store.deleteAll()
+  console.log(`Deleted ${count} vectors from the ${type} store`)
+
+  if (!keepChunks && fs.existsSync(chunksPath(config))) {
+    fs.rmSync(chunksPath(config))
+    console.log(`Deleted staged chunks (${chunksPath(config)})`)
+  }
+}
+
+/**
+ * `namespaces list`, `namespaces copy <from> <to>` (vectors and staged chunks), `namespaces drop <name>`
+ */
+export const namespaces = async (config: RagCliConfig, type: VectorStoreType, args: string[]) => {
+  const [action, ...names] = args
+  const store = await openStore({ ...config, store: { ...config.store, namespace: undefined } }, type)
+  const chunksPathOf = (namespace: string) => namespacedPath(config.chunksPath, namespace)
+
+  if (action === 'list') {
+    const found = await store.listNamespaces()
+    if (found.length === 0) console.log('No namespaces.')
+    for (const namespace of found) {
+      const scoped = store.forNamespace(namespace)
+      await scoped.init()
+      console.log(
+        `${namespace}: ${await scoped.count()} vectors, ${readChunks(chunksPathOf(namespace)).length} staged chunks`,
+      )
+    }
+  } else if (action === 'copy' && names.length === 2) {
+    const [from, to] = names
+    const copied = await store.copyNamespace(from, to)
+    if (fs.existsSync(chunksPathOf(from))) fs.copyFileSync(chunksPathOf(from), chunksPathOf(to))
+    console.log(`Copied ${copied} vectors from "${from}" to "${to}"`)
+  } else if (action === 'drop' && names.length === 1) {
+    const [namespace] = names
+    await store.dropNamespace(namespace)
+    if (fs.existsSync(chunksPathOf(namespace))) fs.rmSync(chunksPathOf(namespace))
+    console.log(`Dropped namespace "${namespace}"`)
+  } else {
+    throw new Error('Usage: namespaces list | namespaces copy <from> <to> | namespaces drop <name>')
+  }
+}
@@ -0,0 +1,89 @@
+import * as fs from 'fs'
+import * as path from 'path'
+
+import type { ChunkOptions } from '../document-ingestion/chunker'
+import type { CrawlOptions } from '../document-ingestion/crawler'
+import type { LoadOptions } from '../document-ingestion/fileLoader'
+import type { PreprocessOptions } from '../document-ingestion/preprocessor'
+import type { EmbeddingProviderName } from '../embeddings/types'
+import type { RetrieveOptions } from '../retriever/types'
+import type { VectorStoreType } from '../vector-store/types'
+
+export const DEFAULT_CONFIG_FILE = 'rag.config.json'
+
+/**
+ * Everything the CLI needs, read from `rag.config.json`. Relative paths are resolved
+ * against the config file's directory (the working directory when there is no file).
+ */
+export interface RagCliConfig {
+  embeddings: {
+    provider: EmbeddingProviderName // memory store; faiss/chroma/pinecone always embed with OpenAI
+    model?: string
+    dimensions?: number
+    batchSize?: number
+    cacheFile?: string // persistent embedding cache, so re-indexing only pays for new chunks
+  }
+  chunking: Omit<ChunkOptions, 'embeddingService'>
+  store: {
+    type: VectorStoreType // default for `index` and `query`; override with --store
+    memoryPath: string
+    faissPath: string
+    collectionName: string // chroma
+    indexName: string // pinecone
+    namespace?: string // tenant to work in; override with --namespace
+  }
+  chunksPath: string // chunks staged by `ingest`, embedded by `index` (one file per namespace)
+  load: LoadOptions
+  crawl: CrawlOptions
+  preprocess: PreprocessOptions
+  retrieval: RetrieveOptions
+}
+
+export const DEFAULT_CONFIG: RagCliConfig = {
+  embeddings: { provider: 'huggingface', cacheFile: '.rag/embeddings-cache.jsonl' },
+  chunking: { strategy: 'character', chunkSize: 500, chunkOverlap: 100 },
+  store: {
+    type: 'memory',
+    memoryPath: '.rag/memory-store.json',
+    faissPath: '.rag/faiss',
+    collectionName: 'company-knowledge-collection',
+    indexName: 'company-knowledge-index',
+  },
+  chunksPath: '.rag/chunks.jsonl',
+  load: {},
+  crawl: {},
+  preprocess: {},
+  retrieval: { mode: 'similarity', k: 5 },
+}
+
+/**
+ * Load the config (explicit path, else `rag.config.json` in the working directory if present),
+ * merged section by section over the defaults
+ */
+export const loadConfig = (configPath?: string): { config: RagCliConfig; configFile?: string } => {
+  const candidate = path.resolve(configPath ?? DEFAULT_CONFIG_FILE)
+  if (configPath && !fs.existsSync(candidate)) throw new Error(`Config file not found: ${candidate}`)
+  const configFile = fs.existsSync(candidate) ? candidate : undefined
+
+  const fromFile: Partial<RagCliConfig> = configFile ? JSON.parse(fs.readFileSync(configFile, 'utf8')) : {}
+  const config: RagCliConfig = {
+    ...DEFAULT_CONFIG,
+    ...fromFile,
+    embeddings: { ...DEFAULT_CONFIG.embeddings, ...fromFile.embeddings },
+    chunking: { ...DEFAULT_CONFIG.chunking, ...fromFile.chunking },
+    store: { ...DEFAULT_CONFIG.store, ...fromFile.store },
+    load: { ...DEFAULT_CONFIG.load, ...fromFile.load },
+    crawl: { ...DEFAULT_CONFIG.crawl, ...fromFile.crawl },
+    preprocess: { ...DEFAULT_CONFIG.preprocess, ...fromFile.preprocess },
+    retrieval: { ...DEFAULT_CONFIG.retrieval, ...fromFile.retrieval },
+  }
+
+  const baseDir = configFile ? path.dirname(configFile) : process.cwd()
+  const resolve = (p: string) => path.resolve(baseDir, p)
+  config.chunksPath = resolve(config.chunksPath)
+  config.store.memoryPath = resolve(config.store.memoryPath)
+  config.store.faissPath = resolve(config.store.faissPath)
+  if (config.embeddings.cacheFile) config.embeddings.cacheFile = resolve(config.embeddings.cacheFile)
+
+  return { config, configFile }
+}
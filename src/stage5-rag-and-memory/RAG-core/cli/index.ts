@@ -0,0 +1,104 @@
+import 'dotenv/config'
+import { parseArgs } from 'util'
+import { loadConfig } from './config'
+import { clear, index, ingest, namespaces, parseFilter, query, RETRIEVAL_MODES, stats, STORE_TYPES } from './commands'
+import type { RetrievalMode } from '../retriever/types'
+import type { VectorStoreType } from '../vector-store/types'
+
+const USAGE = `Usage: yarn rag <command> [options]
+
+Commands:
+  ingest <dir|file|url...>   Load, clean and chunk sources into the staging file
+  index                      Embed the staged chunks and rebuild the vector store
+  query "<question>"         Search the vector store
+  stats                      Show staged chunks and vector counts
+  clear                      Delete all vectors (and the staged chunks)
+  namespaces list            List tenants with data in the store
+  namespaces copy <from> <to>
+  namespaces drop <name>
+
+Options:
+  -c, --config <file>        Config file (default: ./rag.config.json if present)
+  --store <type>             ${STORE_TYPES.join('|')} (default: store.type from the config)
+  -n, --namespace <tenant>   Work inside one tenant's namespace (default: store.namespace from the config)
+  --k <n>                    query: number of results
+  --mode <mode>              query: ${RETRIEVAL_MODES.join('|')}
+  --filter <filter>          query: key=value (repeatable) or a JSON metadata filter
+  --min-score <score>        query: drop results scoring below this (0..1)
+  --json                     query: print raw results as JSON
+  --keep-chunks              clear: only delete vectors
+  -h, --help                 Show this help`
+
+const oneOf = <T extends string>(value: string, allowed: T[], name: string): T => {
+  if (!allowed.includes(value as T)) throw new Error(`Invalid ${name} "${value}", expected ${allowed.join('|')}`)
+  return value as T
+}
+
+const toNumber = (value: string, name: string) => {
+  const parsed = Number(value)
+  if (Number.isNaN(parsed)) throw new Error(`Invalid ${name} "${value}", expected a number`)
+  return parsed
+}
+
+/**
+ * RAG-core pipeline CLI, e.g.
+ *   yarn rag ingest ./docs https://example.com/help
+ *   yarn rag index --store faiss
+ *   yarn rag query "How do refunds work?" --k 5 --filter type=pdf
+ *   yarn rag ingest ./customers/acme --namespace acme
+ */
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      config: { type: 'string', short: 'c' },
+      store: { type: 'string' },
+      namespace: { type: 'string', short: 'n' },
+      k: { type: 'string' },
+      mode: { type: 'string' },
+      filter: { type: 'string', multiple: true },
+      'min-score': { type: 'string' },
+      json: { type: 'boolean', default: false },
+      'keep-chunks': { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  })
+  const [command, ...args] = positionals
+  if (values.help || !command) {
+    console.log(USAGE)
+    return
+  }
+
+  const { config, configFile } = loadConfig(values.config)
+  if (values.namespace !== undefined) config.store.namespace = values.namespace
+  const storeType = oneOf<VectorStoreType>(values.store ?? config.store.type, STORE_TYPES, 'store')
+
+  switch (command) {
+    case 'ingest':
+      return await ingest(config, args)
+    case 'index':
+      return await index(config, storeType)
+    case 'query':
+      return await query(config, storeType, args.join(' '), {
+        k: values.k === undefined ? (config.retrieval.k ?? 5) : toNumber(values.k, 'k'),
+        mode: oneOf<RetrievalMode>(values.mode ?? config.retrieval.mode ?? 'similarity', RETRIEVAL_MODES, 'mode'),
+        filter: parseFilter(values.filter ?? []) ?? config.retrieval.filter,
+        minScore:
+          values['min-score'] === undefined ? config.retrieval.minScore : toNumber(values['min-score'], 'min-score'),
+        json: values.json,
+      })
+    case 'stats':
+      return await stats(config, storeType, configFile)
+    case 'clear':
+      return await clear(config, storeType, values['keep-chunks'])
+    case 'namespaces':
+      return await namespaces(config, storeType, args)
+    default:
+      throw new Error(`Unknown command "${command}"\n\n${USAGE}`)
+  }
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err)
+  process.exitCode = 1
+})
@@ -0,0 +1,70 @@
+import assert from 'node:assert/strict'
+import http from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { after, before, describe, it } from 'node:test'
+
+import { loadFromApi } from './apiLoader'
+
+const startApi = async (route: (url: URL, res: http.ServerResponse) => void) => {
+  const requests: { url: string; authorization?: string }[] = []
+  const server = http.createServer((req, res) => {
+    requests.push({ url: req.url ?? '/', authorization: req.headers.authorization })
+    route(new URL(req.url ?? '/', 'http://localhost'), res)
+  })
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  return {
+    origin: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    requests,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  }
+}
+
+type Api = Awaited<ReturnType<typeof startApi>>
+
+const json = (res: http.ServerResponse, body: unknown, link?: string) => {
+  res.writeHead(200, { 'Content-Type': 'application/json', ...(link && { Link: link }) })
+  res.end(JSON.stringify(body))
+}
+
+describe('loadFromApi Link-header pagination', () => {
+  let api: Api
+  let elsewhere: Api
+
+  before(async () => {
+    elsewhere = await startApi((_url, res) => json(res, [{ id: 'stolen' }]))
+    api = await startApi((url, res) => {
+      if (url.pathname === '/items' && url.searchParams.get('page') === '2') {
+        return json(res, [{ id: 2 }], `<${elsewhere.origin}/items?page=3>; rel="next"`)
+      }
+      if (url.pathname === '/items') return json(res, [{ id: 1 }], '</items?page=2>; rel="next"')
+      res.writeHead(404)
+      res.end()
+    })
+  })
+  after(async () => {
+    await api.close()
+    await elsewhere.close()
+  })
+
+  it('follows same-origin links with credentials and stops at another origin', async () => {
+    const docs = await loadFromApi(`${api.origin}/items`, {
+      auth: { type: 'query', name: 'api_key', value: 'secret' },
+      headers: { Authorization: 'Bearer token' },
+      pagination: { type: 'link' },
+      mapping: { id: 'id' },
+      retries: 0,
+    })
+    assert.deepEqual(
+      docs.map((d) => d.id),
+      ['1', '2'],
+    )
+    assert.deepEqual(
+      api.requests.map((r) => [r.url, r.authorization]),
+      [
+        ['/items?api_key=secret', 'Bearer token'],
+        ['/items?page=2&api_key=secret', 'Bearer token'],
+      ],
+    )
+    assert.equal(elsewhere.requests.length, 0)
+  })
+})
@@ -1,30 +1,198 @@
 import { Document } from '@langchain/core/documents'
 
-export const loadFromApi = async (endpoint: string): Promise<Document[]> => {
-  const response = await fetch(endpoint)
-  const data = await response.json()
+export type ApiAuth =
+  | { type: 'bearer'; token: string }
+  | { type: 'basic'; username: string; password: string }
+  | { type: 'header'; name: string; value: string } // e.g. X-API-Key
+  | { type: 'query'; name: string; value: string } // e.g. ?api_key=...
+
+export type ApiPagination =
+  | { type: 'none' }
+  | { type: 'page'; pageParam?: string; startPage?: number; limitParam?: string; limit?: number }
+  | { type: 'offset'; offsetParam?: string; limitParam?: string; limit: number }
+  | { type: 'cursor'; cursorParam: string; nextCursorPath: string; limitParam?: string; limit?: number }
+  | { type: 'link' } // follow the `Link: <...>; rel="next"` response header
+
+/**
+ * Which JSON fields (dot paths, e.g. `fields.summary` or `tags.0`) become what
+ */
+export interface ApiFieldMapping {
+  content?: string[] // joined into pageContent; default: the whole item as JSON
+  metadata?: Record<string, string> // metadata key → field path
+  id?: string // field path of a stable id (becomes the document id)
+  separator?: string // between content fields (default blank line)
+}
+
+export interface ApiLoaderOptions {
+  headers?: Record<string, string>
+  auth?: ApiAuth
+  pagination?: ApiPagination
+  itemsPath?: string // where the item array sits in each response (default: the body if it's an array, else the body as one item)
+  mapping?: ApiFieldMapping
+  maxPages?: number // safety cap on requests (default 50)
+  retries?: number // per request, for network errors, 429 and 5xx (default 3)
+  timeoutMs?: number // per request (default 30 s)
+}
+
+const getPath = (value: any, fieldPath: string): any =>
+  fieldPath.split('.').reduce((current, key) => (current == null ? undefined : current[key]), value)
+
+const toText = (value: any): string => (typeof value === 'string' ? value : JSON.stringify(value, null, 2))
+
+// Vector store metadata only takes primitives
+const toMetadataValue = (value: any) =>
+  value === null || ['string', 'number', 'boolean'].includes(typeof value) ? value : JSON.stringify(value)
+
+/**
+ * `<https://api.example.com/items?page=3>; rel="next", <...>; rel="last"` → the next URL
+ */
+const parseNextLink = (header: string | null): string | undefined => {
+  for (const part of header?.split(',') ?? []) {
+    const match = /<([^>]+)>\s*;(.*)/.exec(part.trim())
+    if (match && /rel="?([^"]*\s)?next(\s[^"]*)?"?/.test(match[2])) return match[1]
+  }
+  return undefined
+}
+
+const authHeaders = (auth?: ApiAuth): Record<string, string> => {
+  if (auth?.type === 'bearer') return { Authorization: `Bearer ${auth.token}` }
+  if (auth?.type === 'basic') {
+    return { Authorization: `Basic ${Buffer.from(`${auth.username}:${auth.password}`).toString('base64')}` }
+  }
+  if (auth?.type === 'header') return { [auth.name]: auth.value }
+  return {}
+}
+
+const authParams = (auth?: ApiAuth): Record<string, string> =>
+  auth?.type === 'query' ? { [auth.name]: auth.value } : {}
+
+const withParams = (url: string, params: Record<string, string | number | undefined>) => {
+  const result = new URL(url)
+  Object.entries(params).forEach(([key, value]) => value !== undefined && result.searchParams.set(key, String(value)))
+  return result.toString()
+}
+
+const limitParam = (pagination: { limitParam?: string; limit?: number }) =>
+  pagination.limit === undefined ? {} : { [pagination.limitParam ?? 'limit']: pagination.limit }
+
+const toDocument = (
+  item: any,
+  index: number,
+  endpoint: string,
+  mapping: ApiFieldMapping = {},
+): Document | undefined => {
+  const pageContent = mapping.content
+    ? mapping.content
+        .map((field) => getPath(item, field))
+        .filter((value) => value !== undefined && value !== null && value !== '')
+        .map(toText)
+        .join(mapping.separator ?? '\n\n')
+    : toText(item)
+  if (!pageContent.trim()) return undefined
+
+  const metadata: Record<string, any> = { source: endpoint, index }
+  Object.entries(mapping.metadata ?? {}).forEach(([key, field]) => {
+    const value = getPath(item, field)
+    if (value !== undefined) metadata[key] = toMetadataValue(value)
+  })
+  const id = mapping.id ? getPath(item, mapping.id) : undefined
+  return new Document({ id: id === undefined ? undefined : String(id), pageContent, metadata })
+}
+
+/**
+ * Load records from a JSON API, one document per item.
+ * Supports page/offset/cursor/Link-header pagination, bearer/basic/header/query auth,
+ * retries with exponential backoff, and a field mapping for content vs metadata.
+ * @example
+ * loadFromApi('https://support.example.com/api/tickets', {
+ *   auth: { type: 'bearer', token: process.env.SUPPORT_TOKEN! },
+ *   pagination: { type: 'cursor', cursorParam: 'after', nextCursorPath: 'meta.next_cursor', limitParam: 'limit', limit: 100 },
+ *   itemsPath: 'tickets',
+ *   mapping: { content: ['subject', 'description'], metadata: { status: 'status', createdAt: 'created_at' }, id: 'id' },
+ * })
+ */
+export const loadFromApi = async (endpoint: string, options: ApiLoaderOptions = {}): Promise<Document[]> => {
+  const { pagination = { type: 'none' }, maxPages = 50, retries = 3, timeoutMs = 30_000 } = options
+  const { default: pRetry, AbortError } = await import('p-retry')
+  const headers = { Accept: 'application/json', ...authHeaders(options.auth), ...options.headers }
+
+  // Query auth goes on every request, including same-origin Link-header URLs, and stays out of error messages
+  const fetchJson = (url: string) =>
+    pRetry(
+      async () => {
+        const response = await fetch(withParams(url, authParams(options.auth)), {
+          headers,
+          signal: AbortSignal.timeout(timeoutMs),
+        })
+        if (!response.ok) {
+          const error = new Error(`HTTP ${response.status} for ${url}`)
+          // Other client errors (bad auth, not found...) won't get better by retrying
+          if (response.status < 500 && response.status !== 429) throw new AbortError(error)
+          throw error
+        }
+        return { body: await response.json(), nextLink: parseNextLink(response.headers.get('link')) }
+      },
+      {
+        retries,
+        factor: 2,
+        minTimeout: 1000,
+        maxTimeout: 10000,
+        onFailedAttempt: ({ error, attemptNumber }: any) =>
+          console.warn(`[API Loader] Attempt ${attemptNumber} failed: ${error.message}`),
+      },
+    )
 
   const documents: Document[] = []
+  let itemIndex = 0
+  let pageNumber = pagination.type === 'page' ? (pagination.startPage ?? 1) : 0
+  let offset = 0
+  let cursor: string | undefined
+  let nextUrl: string | undefined = endpoint
+
+  for (let request = 0; request < maxPages && nextUrl; request++) {
+    let url = nextUrl
+    if (pagination.type === 'page') {
+      url = withParams(endpoint, { [pagination.pageParam ?? 'page']: pageNumber, ...limitParam(pagination) })
+    } else if (pagination.type === 'offset') {
+      url = withParams(endpoint, { [pagination.offsetParam ?? 'offset']: offset, ...limitParam(pagination) })
+    } else if (pagination.type === 'cursor') {
+      url = withParams(endpoint, { [pagination.cursorParam]: cursor, ...limitParam(pagination) })
+    }
 
-  if (Array.isArray(data)) {
-    data.forEach((item, index) => {
-      documents.push(
-        new Document({
-          pageContent: JSON.stringify(item, null, 2),
-          metadata: { source: endpoint, index },
-        }),
-      )
+    const { body, nextLink } = await fetchJson(url)
+    const items: any[] = (() => {
+      const value = options.itemsPath ? getPath(body, options.itemsPath) : body
+      if (Array.isArray(value)) return value
+      return value === undefined || options.itemsPath ? [] : [value]
+    })()
+
+    items.forEach((item) => {
+      const doc = toDocument(item, itemIndex++, endpoint, options.mapping)
+      if (doc) documents.push(doc)
     })
-  } else {
-    documents.push(
-      new Document({
-        pageContent: JSON.stringify(data, null, 2),
-        metadata: { source: endpoint },
-      }),
-    )
+
+    // Work out the next request; undefined ends the loop
+    nextUrl = undefined
+    const pageSize = 'limit' in pagination ? pagination.limit : undefined
+    const isLastPage = items.length === 0 || (pageSize !== undefined && items.length < pageSize)
+    if (pagination.type === 'page' && !isLastPage) {
+      pageNumber++
+      nextUrl = endpoint
+    } else if (pagination.type === 'offset' && !isLastPage) {
+      offset += items.length
+      nextUrl = endpoint
+    } else if (pagination.type === 'cursor') {
+      cursor = getPath(body, pagination.nextCursorPath) || undefined
+      if (cursor && items.length > 0) nextUrl = endpoint
+    } else if (pagination.type === 'link' && nextLink) {
+      const next = new URL(nextLink, url)
+      // Credentials go on every request, so never follow a link to another origin
+      if (next.origin === new URL(endpoint).origin) nextUrl = next.toString()
+      else console.warn(`[API Loader] Not following next link to another origin: ${next.origin}`)
+    }
   }
 
-  console.log('[API Loader] Documents', documents)
+  console.log(`[API Loader] Loaded ${documents.length} documents from ${endpoint}`)
 
   return documents
 }
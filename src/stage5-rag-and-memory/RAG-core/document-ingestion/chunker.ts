@@ -1,14 +1,67 @@
-import { RecursiveCharacterTextSplitter } from 'langchain/text_splitter'
 import { Document } from '@langchain/core/documents'
 
-export const chunkDocuments = async (docs: Document[], chunkSize = 1000, chunkOverlap = 200): Promise<Document[]> => {
-  console.log(`[Chunker] Input documents: ${docs.length}`)
-  const splitter = new RecursiveCharacterTextSplitter({
-    chunkSize,
-    chunkOverlap,
-  })
+import { sha1 } from '../embeddings/utils'
+import { characterStrategy, codeStrategy, markdownStrategy, semanticStrategy, tokenStrategy } from './chunking'
+import type { ChunkOptions, ChunkStrategy, ResolvedChunkOptions, SplitStrategy } from './chunking'
+
+export type { ChunkOptions, ChunkStrategy } from './chunking'
+
+const strategies: Record<ChunkStrategy, SplitStrategy> = {
+  character: characterStrategy,
+  token: tokenStrategy,
+  markdown: markdownStrategy,
+  code: codeStrategy,
+  semantic: semanticStrategy,
+}
+
+/**
+ * Documents without an id get one derived from source + content, so chunks of the same document always agree
+ */
+const parentIdOf = (doc: Document): string =>
+  doc.id ?? doc.metadata?.id ?? sha1(`${doc.metadata?.source ?? ''}\n${doc.pageContent}`).slice(0, 16)
+
+/**
+ * Split documents into chunks with the chosen strategy.
+ * Pass a number for plain character chunking (chunkSize, chunkOverlap), or options for another strategy.
+ * Every chunk keeps its parent's metadata plus `parentId`, `chunkIndex` (per parent) and
+ * `startOffset`/`endOffset` (character range in the parent's pageContent).
+ * @example chunkDocuments(docs, { strategy: 'token', chunkSize: 256, chunkOverlap: 32 })
+ */
+export const chunkDocuments = async (
+  docs: Document[],
+  options: number | ChunkOptions = 1000,
+  chunkOverlap = 200,
+): Promise<Document[]> => {
+  const opts: ResolvedChunkOptions =
+    typeof options === 'number'
+      ? { chunkSize: options, chunkOverlap }
+      : { ...options, chunkSize: options.chunkSize ?? 1000, chunkOverlap: options.chunkOverlap ?? 200 }
+  const strategy = opts.strategy ?? 'character'
+  console.log(`[Chunker] Input documents: ${docs.length} (strategy: ${strategy})`)
+
+  const chunks: Document[] = []
+  for (const doc of docs) {
+    const parentId = parentIdOf(doc)
+    // The parent's own id must not leak into its chunks, or they would all share one vector id
+    const { id: _parentMetadataId, ...metadata } = doc.metadata ?? {}
+    const spans = await strategies[strategy](doc, opts)
+    spans.forEach((span, chunkIndex) =>
+      chunks.push(
+        new Document({
+          pageContent: span.text,
+          metadata: {
+            ...metadata,
+            ...span.metadata,
+            parentId,
+            chunkIndex,
+            startOffset: span.start,
+            endOffset: span.end,
+          },
+        }),
+      ),
+    )
+  }
 
-  const chunks = await splitter.splitDocuments(docs)
   console.log(`[Chunker] Output chunks: ${chunks.length}`)
   return chunks
 }
@@ -0,0 +1,4 @@
+export { characterStrategy, codeStrategy, tokenStrategy } from './splitterStrategies'
+export { markdownStrategy } from './markdownStrategy'
+export { semanticStrategy } from './semanticStrategy'
+export type { ChunkOptions, ChunkStrategy, ResolvedChunkOptions, SplitStrategy, TextSpan } from './types'
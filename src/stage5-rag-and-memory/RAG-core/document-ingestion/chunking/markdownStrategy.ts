@@ -0,0 +1,59 @@
+import { RecursiveCharacterTextSplitter } from 'langchain/text_splitter'
+
+import { locateSpans } from './spans'
+import type { SplitStrategy, TextSpan } from './types'
+
+const HEADING = /^(#{1,6})\s+(.+?)\s*#*\s*$/
+const FENCE = /^\s*(```|~~~)/
+
+interface Section {
+  start: number
+  end: number
+  headings: string[]
+}
+
+/**
+ * Cut a markdown document at ATX headings (ignoring `#` lines inside code fences),
+ * remembering the heading path each section sits under
+ */
+const splitSections = (text: string): Section[] => {
+  const sections: Section[] = []
+  let headings: string[] = []
+  let sectionStart = 0
+  let inFence = false
+  let offset = 0
+
+  for (const line of text.split('\n')) {
+    if (FENCE.test(line)) inFence = !inFence
+    const match = inFence ? null : HEADING.exec(line)
+    if (match) {
+      if (offset > sectionStart) sections.push({ start: sectionStart, end: offset, headings })
+      const level = match[1].length
+      headings = [...headings.slice(0, level - 1), match[2]]
+      sectionStart = offset
+    }
+    offset += line.length + 1
+  }
+  sections.push({ start: sectionStart, end: text.length, headings })
+  return sections
+}
+
+/**
+ * Header-aware markdown chunking: chunks never span two sections, and each carries
+ * `headingPath` (e.g. "Setup > Install") and `heading` metadata. Long sections are
+ * split further by size.
+ */
+export const markdownStrategy: SplitStrategy = async (doc, { chunkSize, chunkOverlap }) => {
+  const text = doc.pageContent
+  const splitter = new RecursiveCharacterTextSplitter({ chunkSize, chunkOverlap })
+  const spans: TextSpan[] = []
+
+  for (const { start, end, headings } of splitSections(text)) {
+    const sectionText = text.slice(start, end)
+    if (!sectionText.trim()) continue
+    const metadata = { headingPath: headings.join(' > '), heading: headings[headings.length - 1] ?? '' }
+    const pieces = locateSpans(sectionText, await splitter.splitText(sectionText), start)
+    spans.push(...pieces.map((piece) => ({ ...piece, metadata })))
+  }
+  return spans
+}
@@ -0,0 +1,53 @@
+import { EmbeddingService } from '../../embeddings/embeddingService'
+import { percentile } from '../../evaluation/metrics'
+import { cosineSimilarity } from '../../retriever/ranking'
+import type { SplitStrategy, TextSpan } from './types'
+
+const DEFAULT_BREAKPOINT_PERCENTILE = 95
+
+// A sentence runs up to terminal punctuation or a line break
+const SENTENCE = /[^.!?\n]+(?:[.!?]+["')\]]*|\n+|$)/g
+
+const splitSentences = (text: string): TextSpan[] =>
+  [...text.matchAll(SENTENCE)]
+    .map((match) => {
+      const raw = match[0]
+      const start = match.index! + (raw.length - raw.trimStart().length)
+      const trimmed = raw.trim()
+      return { text: trimmed, start, end: start + trimmed.length }
+    })
+    .filter((s) => s.text.length > 0)
+
+/**
+ * Semantic chunking: embed each sentence and start a new chunk where the distance between
+ * neighbouring sentences jumps (above the given percentile), i.e. where the topic shifts.
+ * `chunkSize` still caps a chunk's length in characters.
+ */
+export const semanticStrategy: SplitStrategy = async (doc, opts) => {
+  const text = doc.pageContent
+  const sentences = splitSentences(text)
+  if (sentences.length <= 1) return sentences
+
+  const embeddingService = (opts.embeddingService ??= new EmbeddingService('huggingface', { cacheEnabled: false }))
+  const records = await embeddingService.embedDocuments(sentences.map((s) => ({ text: s.text })))
+  const vectorsByText = new Map(records.map((r) => [r.text, r.vector]))
+  const vectors = sentences.map((s) => vectorsByText.get(s.text)!)
+
+  const distances = vectors.slice(1).map((v, i) => 1 - cosineSimilarity(vectors[i], v))
+  const threshold = percentile(distances, opts.breakpointPercentile ?? DEFAULT_BREAKPOINT_PERCENTILE)
+
+  const spans: TextSpan[] = []
+  let groupStart = sentences[0].start
+  let groupEnd = sentences[0].end
+  sentences.slice(1).forEach((sentence, i) => {
+    const isBreakpoint = distances[i] > threshold
+    const tooLong = sentence.end - groupStart > opts.chunkSize
+    if (isBreakpoint || tooLong) {
+      spans.push({ text: text.slice(groupStart, groupEnd), start: groupStart, end: groupEnd })
+      groupStart = sentence.start
+    }
+    groupEnd = sentence.end
+  })
+  spans.push({ text: text.slice(groupStart, groupEnd), start: groupStart, end: groupEnd })
+  return spans
+}
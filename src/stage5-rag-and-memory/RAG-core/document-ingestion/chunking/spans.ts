@@ -0,0 +1,16 @@
+import type { TextSpan } from './types'
+
+/**
+ * Find where each piece came from in `source`. Pieces are in order but may overlap,
+ * so each search starts just after the previous piece's start.
+ */
+export const locateSpans = (source: string, pieces: string[], baseOffset = 0): TextSpan[] => {
+  let cursor = 0
+  return pieces.map((text) => {
+    let start = source.indexOf(text, cursor)
+    if (start === -1) start = source.indexOf(text)
+    if (start === -1) return { text, start: -1, end: -1 }
+    cursor = start + 1
+    return { text, start: baseOffset + start, end: baseOffset + start + text.length }
+  })
+}
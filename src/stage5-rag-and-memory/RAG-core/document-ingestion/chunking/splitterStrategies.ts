@@ -0,0 +1,84 @@
+import { RecursiveCharacterTextSplitter } from 'langchain/text_splitter'
+import type { SupportedTextSplitterLanguage } from 'langchain/text_splitter'
+import { getEncoding } from 'js-tiktoken'
+import type { Tiktoken, TiktokenEncoding } from 'js-tiktoken'
+import path from 'path'
+
+import { locateSpans } from './spans'
+import type { SplitStrategy } from './types'
+
+const LANGUAGE_BY_EXTENSION: Record<string, SupportedTextSplitterLanguage> = {
+  '.js': 'js',
+  '.jsx': 'js',
+  '.mjs': 'js',
+  '.cjs': 'js',
+  '.ts': 'js',
+  '.tsx': 'js',
+  '.py': 'python',
+  '.go': 'go',
+  '.java': 'java',
+  '.rb': 'ruby',
+  '.rs': 'rust',
+  '.c': 'cpp',
+  '.h': 'cpp',
+  '.cc': 'cpp',
+  '.cpp': 'cpp',
+  '.hpp': 'cpp',
+  '.php': 'php',
+  '.scala': 'scala',
+  '.swift': 'swift',
+  '.sol': 'sol',
+  '.proto': 'proto',
+  '.rst': 'rst',
+  '.tex': 'latex',
+  '.html': 'html',
+  '.htm': 'html',
+  '.md': 'markdown',
+}
+
+// Building an encoder parses its whole BPE table, so share one per encoding across documents
+const encoders = new Map<TiktokenEncoding, Tiktoken>()
+
+const encoderFor = (encoding: TiktokenEncoding) => {
+  let encoder = encoders.get(encoding)
+  if (!encoder) {
+    encoder = getEncoding(encoding)
+    encoders.set(encoding, encoder)
+  }
+  return encoder
+}
+
+export const characterStrategy: SplitStrategy = async (doc, { chunkSize, chunkOverlap }) => {
+  const splitter = new RecursiveCharacterTextSplitter({ chunkSize, chunkOverlap })
+  return locateSpans(doc.pageContent, await splitter.splitText(doc.pageContent))
+}
+
+/**
+ * Same natural boundaries as the character strategy, but sizes are measured in tiktoken tokens,
+ * so chunks line up with embedding/LLM context limits
+ */
+export const tokenStrategy: SplitStrategy = async (doc, { chunkSize, chunkOverlap, encoding = 'cl100k_base' }) => {
+  const encoder = encoderFor(encoding)
+  const splitter = new RecursiveCharacterTextSplitter({
+    chunkSize,
+    chunkOverlap,
+    lengthFunction: (text: string) => encoder.encode(text).length,
+  })
+  return locateSpans(doc.pageContent, await splitter.splitText(doc.pageContent))
+}
+
+/**
+ * Split on the language's own boundaries (classes, functions, blocks) before falling back to lines.
+ * Unknown languages fall back to the character strategy.
+ */
+export const codeStrategy: SplitStrategy = async (doc, opts) => {
+  const ext = path.extname(String(doc.metadata?.source ?? '')).toLowerCase()
+  const language = opts.language ?? LANGUAGE_BY_EXTENSION[ext]
+  if (!language) return characterStrategy(doc, opts)
+
+  const splitter = RecursiveCharacterTextSplitter.fromLanguage(language, {
+    chunkSize: opts.chunkSize,
+    chunkOverlap: opts.chunkOverlap,
+  })
+  return locateSpans(doc.pageContent, await splitter.splitText(doc.pageContent))
+}
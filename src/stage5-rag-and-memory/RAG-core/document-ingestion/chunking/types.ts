@@ -0,0 +1,32 @@
+import { Document } from '@langchain/core/documents'
+import type { SupportedTextSplitterLanguage } from 'langchain/text_splitter'
+import type { TiktokenEncoding } from 'js-tiktoken'
+
+import type { EmbeddingService } from '../../embeddings/embeddingService'
+
+export type ChunkStrategy = 'character' | 'token' | 'markdown' | 'code' | 'semantic'
+
+export interface ChunkOptions {
+  strategy?: ChunkStrategy // default 'character'
+  chunkSize?: number // characters (tokens for the token strategy); upper bound for semantic chunks
+  chunkOverlap?: number // same unit as chunkSize; ignored by the semantic strategy
+  encoding?: TiktokenEncoding // token strategy (default cl100k_base, used by OpenAI embedding models)
+  language?: SupportedTextSplitterLanguage // code strategy; inferred from the source extension when omitted
+  embeddingService?: EmbeddingService // semantic strategy (default: the offline local provider)
+  breakpointPercentile?: number // semantic strategy: cut where sentence-to-sentence distance is above this percentile (default 95)
+}
+
+export type ResolvedChunkOptions = ChunkOptions & { chunkSize: number; chunkOverlap: number }
+
+/**
+ * A piece of a document's text. Offsets are character positions in the parent's pageContent
+ * (-1 when a splitter altered the text so it can't be found verbatim).
+ */
+export interface TextSpan {
+  text: string
+  start: number
+  end: number
+  metadata?: Record<string, any> // extra chunk metadata, e.g. the markdown heading path
+}
+
+export type SplitStrategy = (doc: Document, opts: ResolvedChunkOptions) => Promise<TextSpan[]>
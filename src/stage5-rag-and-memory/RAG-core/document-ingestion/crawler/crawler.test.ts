@@ -0,0 +1,256 @@
+import assert from 'node:assert/strict'
+import http from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { after, before, describe, it } from 'node:test'
+
+import { crawl } from './crawler'
+import { HostRateLimiter } from './hostRateLimiter'
+import { parseRobots } from './robots'
+
+const page = (title: string, body: string) =>
+  `<html><head><title>${title}</title></head><body><nav><a href="/">Home</a></nav><main>${body}</main></body></html>`
+
+/**
+ * Local site: `/` links to a page chain (`/a` → `/b` → `/c`), a robots-disallowed page, another host,
+ * a redirect and broken pages. Every request is recorded with its arrival time.
+ */
+const startSite = async (robotsTxt = 'User-agent: *\nDisallow: /private\n') => {
+  const requests: { path: string; at: number }[] = []
+  let inFlight = 0
+  let maxInFlight = 0
+
+  const server = http.createServer((req, res) => {
+    const path = req.url ?? '/'
+    requests.push({ path, at: Date.now() })
+    const { port } = server.address() as AddressInfo
+    const html = (body: string) => {
+      res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' })
+      res.end(body)
+    }
+
+    if (path === '/robots.txt') {
+      res.writeHead(200, { 'Content-Type': 'text/plain' })
+      return res.end(robotsTxt)
+    }
+    if (path === '/') {
+      return html(
+        page(
+          'Home',
+          `<p>Welcome</p>
+          <a href="/a">A</a> <a href="/private/secret">Secret</a> <a href="/moved">Moved</a>
+          <a href="/missing">Missing</a> <a href="/broken">Broken</a> <a href="/data.json">Data</a>
+          <a href="http://localhost:${port}/other-host">Other host</a> <a href="mailto:team@example.com">Mail</a>`,
+        ),
+      )
+    }
+    if (path === '/a') return html(page('A', '<p>Page A</p><a href="/b">B</a>'))
+    if (path === '/b') return html(page('B', '<p>Page B</p><a href="/c">C</a>'))
+    if (path === '/c') return html(page('C', '<p>Page C</p>'))
+    if (path === '/private/secret') return html(page('Secret', '<p>Secret</p>'))
+    if (path === '/other-host') return html(page('Other', '<p>Other host</p>'))
+    if (path === '/moved') {
+      res.writeHead(301, { Location: '/c' })
+      return res.end()
+    }
+    if (path === '/broken') {
+      res.writeHead(500)
+      return res.end('boom')
+    }
+    if (path.startsWith('/slow/')) {
+      inFlight++
+      maxInFlight = Math.max(maxInFlight, inFlight)
+      return setTimeout(() => {
+        inFlight--
+        html(page('Slow', `<p>Slow page ${path}</p>`))
+      }, 50)
+    }
+    res.writeHead(404, { 'Content-Type': 'text/html' })
+    res.end(page('Not found', '<p>Not found</p>'))
+  })
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+  return {
+    origin: `http://127.0.0.1:${port}`,
+    requests,
+    maxInFlight: () => maxInFlight,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  }
+}
+
+type Site = Awaited<ReturnType<typeof startSite>>
+
+const pathsOf = (urls: string[]) => urls.map((u) => new URL(u).pathname).sort()
+
+describe('crawl', () => {
+  let site: Site
+
+  before(async () => {
+    site = await startSite()
+  })
+  after(() => site.close())
+
+  it('fetches only the seeds by default', async () => {
+    const { documents } = await crawl([`${site.origin}/`], { minIntervalMs: 0 })
+    assert.equal(documents.length, 1)
+    assert.equal(documents[0].metadata.title, 'Home')
+    assert.equal(documents[0].metadata.depth, 0)
+    assert.match(documents[0].pageContent, /Welcome/)
+    assert.doesNotMatch(documents[0].pageContent, /Home/, 'nav is stripped')
+  })
+
+  it('follows links breadth-first up to maxDepth', async () => {
+    const depthsAt = async (maxDepth: number) => {
+      const { documents } = await crawl([`${site.origin}/`], { maxDepth, minIntervalMs: 0 })
+      return Object.fromEntries(documents.map((d) => [new URL(d.metadata.url).pathname, d.metadata.depth]))
+    }
+    // /moved redirects to /c, so /c turns up one level before its link on /b
+    assert.deepEqual(await depthsAt(1), { '/': 0, '/a': 1, '/c': 1 })
+    assert.deepEqual(await depthsAt(2), { '/': 0, '/a': 1, '/c': 1, '/b': 2 })
+  })
+
+  it('stops after maxPages fetches', async () => {
+    const before = site.requests.length
+    const { documents } = await crawl([`${site.origin}/`], { maxDepth: 3, maxPages: 2, minIntervalMs: 0 })
+    const pageRequests = site.requests.slice(before).filter((r) => r.path !== '/robots.txt')
+    assert.equal(pageRequests.length, 2)
+    assert.ok(documents.length <= 2)
+  })
+
+  it('skips pages disallowed by robots.txt without requesting them', async () => {
+    const before = site.requests.length
+    const { documents, skipped } = await crawl([`${site.origin}/`], { maxDepth: 1, minIntervalMs: 0 })
+    assert.ok(!documents.some((d) => d.metadata.url.includes('/private/')))
+    assert.deepEqual(
+      skipped.find((s) => s.url.endsWith('/private/secret')),
+      { url: `${site.origin}/private/secret`, reason: 'disallowed by robots.txt' },
+    )
+    assert.ok(!site.requests.slice(before).some((r) => r.path.startsWith('/private/')))
+  })
+
+  it('ignores robots.txt when respectRobotsTxt is false', async () => {
+    const { documents } = await crawl([`${site.origin}/`], {
+      maxDepth: 1,
+      minIntervalMs: 0,
+      respectRobotsTxt: false,
+    })
+    assert.ok(documents.some((d) => d.metadata.url.endsWith('/private/secret')))
+  })
+
+  it('stays on the seed hosts and skips non-HTML links', async () => {
+    const before = site.requests.length
+    const { documents } = await crawl([`${site.origin}/`], { maxDepth: 1, minIntervalMs: 0 })
+    assert.ok(documents.every((d) => new URL(d.metadata.url).hostname === '127.0.0.1'))
+    const requested = site.requests.slice(before).map((r) => r.path)
+    assert.ok(!requested.includes('/other-host'), 'localhost is a different host than 127.0.0.1')
+    assert.ok(!requested.includes('/data.json'))
+  })
+
+  it('records the final URL of redirects and skips error pages', async () => {
+    const { documents, skipped } = await crawl(
+      [`${site.origin}/moved`, `${site.origin}/missing`, `${site.origin}/broken`],
+      { minIntervalMs: 0 },
+    )
+    assert.deepEqual(pathsOf(documents.map((d) => d.metadata.source)), ['/c'])
+    assert.deepEqual(skipped.map((s) => [new URL(s.url).pathname, s.reason]).sort(), [
+      ['/broken', 'HTTP 500'],
+      ['/missing', 'HTTP 404'],
+    ])
+  })
+
+  it('reports unreachable hosts instead of throwing', async () => {
+    const closed = await startSite()
+    await closed.close()
+    const { documents, skipped } = await crawl([`${closed.origin}/`], { respectRobotsTxt: false, timeoutMs: 2000 })
+    assert.equal(documents.length, 0)
+    assert.equal(skipped.length, 1)
+  })
+
+  it('spaces requests to a host by minIntervalMs', async () => {
+    const seeds = [1, 2, 3].map((i) => `${site.origin}/slow/${i}`)
+    const before = site.requests.length
+    await crawl(seeds, { minIntervalMs: 100, respectRobotsTxt: false })
+    const starts = site.requests.slice(before).map((r) => r.at)
+    assert.equal(starts.length, 3)
+    starts.slice(1).forEach((at, i) => assert.ok(at - starts[i] >= 90, `gap ${at - starts[i]}ms`))
+  })
+})
+
+describe('crawl rate limits', () => {
+  it('caps concurrent requests per host', async () => {
+    const site = await startSite()
+    try {
+      const seeds = Array.from({ length: 6 }, (_, i) => `${site.origin}/slow/${i}`)
+      const { documents } = await crawl(seeds, {
+        concurrency: 6,
+        maxConcurrentPerHost: 2,
+        minIntervalMs: 0,
+        respectRobotsTxt: false,
+      })
+      assert.equal(documents.length, 6)
+      assert.equal(site.maxInFlight(), 2)
+    } finally {
+      await site.close()
+    }
+  })
+
+  it('lets a longer robots.txt Crawl-delay override minIntervalMs', async () => {
+    const site = await startSite('User-agent: *\nCrawl-delay: 0.15\n')
+    try {
+      await crawl([`${site.origin}/slow/1`, `${site.origin}/slow/2`], { minIntervalMs: 0 })
+      const starts = site.requests.filter((r) => r.path.startsWith('/slow/')).map((r) => r.at)
+      assert.ok(starts[1] - starts[0] >= 140, `gap ${starts[1] - starts[0]}ms`)
+    } finally {
+      await site.close()
+    }
+  })
+})
+
+describe('HostRateLimiter', () => {
+  it('limits each host separately', async () => {
+    const limiter = new HostRateLimiter(1)
+    const running = new Map<string, number>()
+    let maxPerHost = 0
+    let maxOverall = 0
+    const task = (host: string) =>
+      limiter.schedule(host, 0, async () => {
+        running.set(host, (running.get(host) ?? 0) + 1)
+        maxPerHost = Math.max(maxPerHost, running.get(host)!)
+        maxOverall = Math.max(
+          maxOverall,
+          [...running.values()].reduce((sum, n) => sum + n, 0),
+        )
+        await new Promise((resolve) => setTimeout(resolve, 20))
+        running.set(host, running.get(host)! - 1)
+        return host
+      })
+
+    assert.deepEqual(await Promise.all([task('a'), task('a'), task('b'), task('b')]), ['a', 'a', 'b', 'b'])
+    assert.equal(maxPerHost, 1)
+    assert.equal(maxOverall, 2, 'different hosts run side by side')
+  })
+})
+
+describe('parseRobots', () => {
+  it('applies the most specific agent group and the longest matching rule', () => {
+    const rules = parseRobots(
+      [
+        'User-agent: *',
+        'Disallow: /',
+        '',
+        'User-agent: RAGCoreCrawler',
+        'Disallow: /docs/',
+        'Allow: /docs/public',
+        'Disallow: /*.pdf$',
+        'Crawl-delay: 2',
+      ].join('\n'),
+      'RAGCoreCrawler/1.0',
+    )
+    assert.equal(rules.isAllowed('/'), true)
+    assert.equal(rules.isAllowed('/docs/internal'), false)
+    assert.equal(rules.isAllowed('/docs/public/guide'), true)
+    assert.equal(rules.isAllowed('/files/report.pdf'), false)
+    assert.equal(rules.isAllowed('/files/report.pdf?download=1'), true)
+    assert.equal(rules.crawlDelayMs, 2000)
+  })
+})
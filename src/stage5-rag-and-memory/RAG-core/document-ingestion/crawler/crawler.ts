@@ -0,0 +1,172 @@
+import { Document } from '@langchain/core/documents'
+import * as cheerio from 'cheerio'
+
+import { htmlToText } from '../loaders/htmlLoader'
+import { HostRateLimiter } from './hostRateLimiter'
+import { RobotsCache } from './robots'
+
+export interface CrawlOptions {
+  maxDepth?: number // 0 = only the seed URLs (default)
+  maxPages?: number // stop after this many fetched pages (default 100)
+  concurrency?: number // requests in flight overall (default 4)
+  maxConcurrentPerHost?: number // default 2
+  minIntervalMs?: number // spacing between request starts per host; robots.txt Crawl-delay wins if longer (default 1000)
+  respectRobotsTxt?: boolean // default true
+  userAgent?: string
+  timeoutMs?: number // per request (default 15 s)
+  allowSubdomains?: boolean // follow links to subdomains of the seed hosts (default false)
+}
+
+export interface SkippedUrl {
+  url: string
+  reason: string
+}
+
+export interface CrawlReport {
+  documents: Document[]
+  skipped: SkippedUrl[]
+}
+
+const DEFAULT_USER_AGENT = 'RAGCoreCrawler/1.0'
+
+// Links that are never HTML pages, so not worth a request
+const NON_HTML_EXTENSIONS =
+  /\.(png|jpe?g|gif|svg|webp|ico|pdf|zip|gz|tar|mp3|mp4|webm|avi|mov|css|js|json|xml|woff2?|ttf|eot)$/i
+
+/**
+ * Absolute http(s) URL without fragment, or undefined for mailto:, javascript:, malformed links...
+ */
+const normalizeUrl = (href: string, base?: string): string | undefined => {
+  try {
+    const url = new URL(href, base)
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return undefined
+    url.hash = ''
+    return url.toString()
+  } catch {
+    return undefined
+  }
+}
+
+const bareHost = (hostname: string) => hostname.replace(/^www\./, '')
+
+/**
+ * Run `task` over `items` with at most `limit` running at once
+ */
+const mapWithConcurrency = async <T>(items: T[], limit: number, task: (item: T) => Promise<void>) => {
+  let next = 0
+  const worker = async () => {
+    while (next < items.length) await task(items[next++])
+  }
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker))
+}
+
+/**
+ * Breadth-first crawl from the seed URLs, following same-site links up to `maxDepth`.
+ * Honors robots.txt (rules and Crawl-delay), rate-limits per host, and keeps only the main
+ * content of each page (nav, header, footer, scripts... removed).
+ * Each document has `source`/`url` (final URL after redirects), `title`, `fetchedAt` and `depth` metadata.
+ */
+export const crawl = async (seeds: string[], options: CrawlOptions = {}): Promise<CrawlReport> => {
+  const {
+    maxDepth = 0,
+    maxPages = 100,
+    concurrency = 4,
+    maxConcurrentPerHost = 2,
+    minIntervalMs = 1000,
+    respectRobotsTxt = true,
+    userAgent = DEFAULT_USER_AGENT,
+    timeoutMs = 15_000,
+    allowSubdomains = false,
+  } = options
+
+  const robots = new RobotsCache(userAgent, timeoutMs)
+  const limiter = new HostRateLimiter(maxConcurrentPerHost)
+  const documents: Document[] = []
+  const skipped: SkippedUrl[] = []
+  const seen = new Set<string>()
+  let fetched = 0
+
+  const seedUrls = seeds.map((s) => normalizeUrl(s)).filter((u): u is string => !!u)
+  const allowedHosts = new Set(seedUrls.map((u) => bareHost(new URL(u).hostname)))
+  const isInScope = (url: URL) => {
+    const host = bareHost(url.hostname)
+    return allowedHosts.has(host) || (allowSubdomains && [...allowedHosts].some((h) => host.endsWith(`.${h}`)))
+  }
+
+  const fetchPage = async (url: string, depth: number): Promise<string[]> => {
+    const parsed = new URL(url)
+    let intervalMs = minIntervalMs
+    if (respectRobotsTxt) {
+      const rules = await robots.get(parsed)
+      if (!rules.isAllowed(parsed.pathname + parsed.search)) {
+        skipped.push({ url, reason: 'disallowed by robots.txt' })
+        return []
+      }
+      intervalMs = Math.max(intervalMs, rules.crawlDelayMs ?? 0)
+    }
+    if (fetched >= maxPages) return []
+    fetched++
+
+    try {
+      const response = await limiter.schedule(parsed.host, intervalMs, () =>
+        fetch(url, { headers: { 'User-Agent': userAgent }, signal: AbortSignal.timeout(timeoutMs) }),
+      )
+      if (!response.ok) {
+        skipped.push({ url, reason: `HTTP ${response.status}` })
+        return []
+      }
+      const contentType = response.headers.get('content-type') ?? ''
+      if (!contentType.includes('text/html')) {
+        skipped.push({ url, reason: `not HTML (${contentType || 'no content-type'})` })
+        return []
+      }
+
+      const html = await response.text()
+      const finalUrl = response.url || url
+      const { title, text } = htmlToText(html)
+      if (text) {
+        documents.push(
+          new Document({
+            pageContent: text,
+            metadata: {
+              source: finalUrl,
+              url: finalUrl,
+              title: title ?? '',
+              fetchedAt: new Date().toISOString(),
+              depth,
+              type: 'html',
+            },
+          }),
+        )
+      } else {
+        skipped.push({ url, reason: 'no extractable text' })
+      }
+
+      if (depth >= maxDepth) return []
+      const $ = cheerio.load(html)
+      return $('a[href]')
+        .map((_, el) => normalizeUrl($(el).attr('href')!, finalUrl))
+        .get()
+        .filter((link): link is string => !!link)
+    } catch (err) {
+      skipped.push({ url, reason: err instanceof Error ? err.message : String(err) })
+      return []
+    }
+  }
+
+  let frontier = seedUrls.filter((u) => !seen.has(u) && seen.add(u))
+  for (let depth = 0; depth <= maxDepth && frontier.length > 0 && fetched < maxPages; depth++) {
+    const discovered: string[] = []
+    await mapWithConcurrency(frontier, concurrency, async (url) => {
+      discovered.push(...(await fetchPage(url, depth)))
+    })
+    frontier = discovered.filter((link) => {
+      const url = new URL(link)
+      if (seen.has(link) || !isInScope(url) || NON_HTML_EXTENSIONS.test(url.pathname)) return false
+      seen.add(link)
+      return true
+    })
+  }
+
+  return { documents, skipped }
+}
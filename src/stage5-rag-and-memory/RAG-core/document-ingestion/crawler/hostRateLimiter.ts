@@ -0,0 +1,39 @@
+interface HostState {
+  active: number
+  nextStart: number
+  waiters: (() => void)[]
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+/**
+ * Per-host politeness: at most `maxConcurrentPerHost` requests in flight per host,
+ * and request starts spaced at least `intervalMs` apart.
+ */
+export class HostRateLimiter {
+  private hosts = new Map<string, HostState>()
+  private maxConcurrentPerHost: number
+
+  constructor(maxConcurrentPerHost: number) {
+    this.maxConcurrentPerHost = maxConcurrentPerHost
+  }
+
+  async schedule<T>(host: string, intervalMs: number, task: () => Promise<T>): Promise<T> {
+    let state = this.hosts.get(host)
+    if (!state) this.hosts.set(host, (state = { active: 0, nextStart: 0, waiters: [] }))
+
+    while (state.active >= this.maxConcurrentPerHost) await new Promise<void>((resolve) => state!.waiters.push(resolve))
+    state.active++
+    // Reserve the start slot before waiting, so concurrent callers queue up behind each other
+    const start = Math.max(Date.now(), state.nextStart)
+    state.nextStart = start + intervalMs
+    await sleep(start - Date.now())
+
+    try {
+      return await task()
+    } finally {
+      state.active--
+      state.waiters.shift()?.()
+    }
+  }
+}
@@ -0,0 +1,4 @@
+export { crawl } from './crawler'
+export type { CrawlOptions, CrawlReport, SkippedUrl } from './crawler'
+export { parseRobots, RobotsCache } from './robots'
+export { HostRateLimiter } from './hostRateLimiter'
@@ -0,0 +1,103 @@
+interface Rule {
+  allow: boolean
+  pattern: RegExp
+  length: number // specificity: longer patterns win
+}
+
+export interface RobotsRules {
+  isAllowed(pathWithQuery: string): boolean
+  crawlDelayMs?: number
+}
+
+const ALLOW_ALL: RobotsRules = { isAllowed: () => true }
+const DISALLOW_ALL: RobotsRules = { isAllowed: () => false }
+
+// robots.txt patterns: `*` matches anything, a trailing `$` anchors the end
+const toPattern = (path: string) => {
+  const anchored = path.endsWith('$')
+  const body = (anchored ? path.slice(0, -1) : path).replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')
+  return new RegExp(`^${body}${anchored ? '$' : ''}`)
+}
+
+/**
+ * Parse robots.txt for one user agent: the most specific matching group applies (else `*`),
+ * and within it the longest matching rule wins, with Allow winning ties.
+ */
+export const parseRobots = (text: string, userAgent: string): RobotsRules => {
+  const agent = userAgent.toLowerCase()
+  const groups: { agents: string[]; rules: Rule[]; crawlDelayMs?: number }[] = []
+  let current: (typeof groups)[number] | undefined
+  let lastWasAgent = false
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*/, '').trim()
+    const separator = line.indexOf(':')
+    if (separator === -1) continue
+    const field = line.slice(0, separator).trim().toLowerCase()
+    const value = line.slice(separator + 1).trim()
+
+    if (field === 'user-agent') {
+      // Consecutive user-agent lines share one group
+      if (!current || !lastWasAgent) groups.push((current = { agents: [], rules: [] }))
+      current.agents.push(value.toLowerCase())
+      lastWasAgent = true
+      continue
+    }
+    lastWasAgent = false
+    if (!current) continue
+    if ((field === 'allow' || field === 'disallow') && value) {
+      current.rules.push({ allow: field === 'allow', pattern: toPattern(value), length: value.length })
+    } else if (field === 'crawl-delay' && !Number.isNaN(Number(value))) {
+      current.crawlDelayMs = Number(value) * 1000
+    }
+  }
+
+  const group =
+    groups.find((g) => g.agents.some((a) => a !== '*' && agent.includes(a))) ??
+    groups.find((g) => g.agents.includes('*'))
+  if (!group) return ALLOW_ALL
+
+  return {
+    crawlDelayMs: group.crawlDelayMs,
+    isAllowed: (pathWithQuery) => {
+      const matches = group.rules.filter((r) => r.pattern.test(pathWithQuery))
+      if (matches.length === 0) return true
+      const best = matches.reduce((a, b) => (b.length > a.length || (b.length === a.length && b.allow) ? b : a))
+      return best.allow
+    },
+  }
+}
+
+/**
+ * Fetches and caches robots.txt per origin. A missing file (4xx) allows everything;
+ * a server error or network failure disallows the whole host, as crawlers conventionally do.
+ */
+export class RobotsCache {
+  private rules = new Map<string, Promise<RobotsRules>>()
+  private userAgent: string
+  private timeoutMs: number
+
+  constructor(userAgent: string, timeoutMs: number) {
+    this.userAgent = userAgent
+    this.timeoutMs = timeoutMs
+  }
+
+  get(url: URL): Promise<RobotsRules> {
+    if (!this.rules.has(url.origin)) this.rules.set(url.origin, this.fetchRules(url.origin))
+    return this.rules.get(url.origin)!
+  }
+
+  private async fetchRules(origin: string): Promise<RobotsRules> {
+    try {
+      const response = await fetch(`${origin}/robots.txt`, {
+        headers: { 'User-Agent': this.userAgent },
+        signal: AbortSignal.timeout(this.timeoutMs),
+      })
+      if (response.status >= 500) return DISALLOW_ALL
+      if (!response.ok) return ALLOW_ALL
+      return parseRobots(await response.text(), this.userAgent)
+    } catch {
+      return DISALLOW_ALL
+    }
+  }
+}
@@ -1,61 +1,193 @@
 import { Document } from '@langchain/core/documents'
 import { TextLoader } from 'langchain/document_loaders/fs/text'
+import { minimatch } from 'minimatch'
 import fs from 'fs'
 import path from 'path'
 
+import { loadCsv, loadDocx, loadHtml, loadPdf } from './loaders'
+
+export type FileLoader = (filePath: string) => Promise<Document[]>
+
+export interface LoadOptions {
+  recursive?: boolean // descend into subdirectories (default true)
+  include?: string[] // globs relative to the root dir, e.g. ['**/*.md']; default: every file
+  exclude?: string[] // globs relative to the root dir; matching directories are not entered
+  maxFileSizeBytes?: number // larger files are skipped (default 20 MB)
+  followSymlinks?: boolean // default false: symlinks are skipped and reported
+}
+
+export interface SkippedFile {
+  path: string
+  reason: string
+}
+
+export interface LoadReport {
+  documents: Document[]
+  skipped: SkippedFile[]
+}
+
+const DEFAULT_EXCLUDE = ['**/node_modules/**', '**/.git/**']
+const DEFAULT_MAX_FILE_SIZE_BYTES = 20 * 1024 * 1024
+
+const loadText: FileLoader = async (filePath) => {
+  const loaded = await new TextLoader(filePath).load()
+  loaded.forEach((d: Document) => (d.metadata = { ...d.metadata, source: filePath }))
+  return loaded
+}
+
+// For JSON, we read the file and wrap it into a single Document
+const loadJson: FileLoader = async (filePath) => {
+  const jsonValue = JSON.parse(fs.readFileSync(filePath, 'utf-8'))
+  return [
+    new Document({
+      pageContent: JSON.stringify(jsonValue, null, 2),
+      metadata: { source: filePath, type: 'json' },
+    }),
+  ]
+}
+
+const normalizeExt = (ext: string) => (ext.startsWith('.') ? ext : `.${ext}`).toLowerCase()
+
+const loaders = new Map<string, FileLoader>([
+  ['.txt', loadText],
+  ['.md', loadText],
+  ['.json', loadJson],
+  ['.pdf', loadPdf],
+  ['.csv', loadCsv],
+  ['.docx', loadDocx],
+  ['.html', loadHtml],
+  ['.htm', loadHtml],
+])
+
 /**
- * Load local documents from a directory. Supports .txt, .md, .pdf, .json.
- * For JSON, we read the file and wrap it into a single Document.
+ * Register (or override) the loader for a file extension, e.g. registerLoader('.xml', loadXml).
+ * A loader returns the documents for one file; throwing or returning [] gets the file skipped and reported.
  */
-export const loadLocalDocuments = async (dirPath: string): Promise<Document[]> => {
-  console.log(`[File Loader] Loading from directory: ${dirPath}`)
-  const entries = fs.existsSync(dirPath) ? fs.readdirSync(dirPath) : []
-  console.log(`[File Loader] Found ${entries.length} files:`, entries)
-  const documents: Document[] = []
+export const registerLoader = (ext: string, loader: FileLoader) => {
+  loaders.set(normalizeExt(ext), loader)
+}
 
-  for (const fileName of entries) {
-    const filePath = path.join(dirPath, fileName)
-    const stat = fs.statSync(filePath)
-    if (!stat.isFile()) continue
+export const getSupportedExtensions = () => [...loaders.keys()]
 
-    const ext = path.extname(fileName).toLowerCase()
+const matchesAny = (relPath: string, patterns: string[]) =>
+  patterns.some((pattern) => minimatch(relPath, pattern, { dot: true }))
 
-    if (ext === '.txt' || ext === '.md') {
-      const loader = new TextLoader(filePath)
-      const loaded = await loader.load()
-      loaded.forEach((d: Document) => (d.metadata = { ...d.metadata, source: filePath }))
-      documents.push(...loaded)
-      continue
-    }
+/**
+ * Walk the tree and collect candidate files. Symlinked directories are only followed when
+ * allowed, and each real directory is visited once, so symlink cycles terminate.
+ */
+const collectFiles = (rootDir: string, opts: Required<LoadOptions>, skipped: SkippedFile[]): string[] => {
+  const files: string[] = []
+  const visitedDirs = new Set<string>()
+
+  const walk = (dir: string) => {
+    const realDir = fs.realpathSync(dir)
+    if (visitedDirs.has(realDir)) return
+    visitedDirs.add(realDir)
+
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name))) {
+      const fullPath = path.join(dir, entry.name)
+      const relPath = path.relative(rootDir, fullPath).split(path.sep).join('/')
 
-    // if (ext === '.pdf') {
-    //   const loader = new PDFLoader(filePath)
-    //   const loaded = await loader.load()
-    //   loaded.forEach((d: Document) => (d.metadata = { ...d.metadata, source: filePath }))
-    //   documents.push(...loaded)
-    //   continue
-    // }
+      const isSymlink = entry.isSymbolicLink()
+      if (!isSymlink && !entry.isDirectory() && !entry.isFile()) continue
 
-    if (ext === '.json') {
+      let stat: fs.Stats
       try {
-        const raw = fs.readFileSync(filePath, 'utf-8')
-        const jsonValue = JSON.parse(raw)
-        documents.push(
-          new Document({
-            pageContent: JSON.stringify(jsonValue, null, 2),
-            metadata: { source: filePath, type: 'json' },
-          }),
-        )
-      } catch (err) {
-        // If JSON parsing fails, skip this file rather than crashing the pipeline
-        // This is intentional to keep ingestion resilient.
+        stat = fs.statSync(fullPath)
+      } catch {
+        skipped.push({ path: fullPath, reason: 'broken symlink' })
+        continue
+      }
+      const skipSymlink = () => skipped.push({ path: fullPath, reason: 'symlink (followSymlinks is off)' })
+
+      if (stat.isDirectory()) {
+        if (!opts.recursive || matchesAny(`${relPath}/`, opts.exclude)) continue
+        if (isSymlink && !opts.followSymlinks) skipSymlink()
+        else walk(fullPath)
         continue
       }
-      continue
+      if (!stat.isFile() || matchesAny(relPath, opts.exclude)) continue
+      if (opts.include.length > 0 && !matchesAny(relPath, opts.include)) continue
+      if (isSymlink && !opts.followSymlinks) {
+        skipSymlink()
+        continue
+      }
+      if (stat.size > opts.maxFileSizeBytes) {
+        skipped.push({ path: fullPath, reason: `larger than ${opts.maxFileSizeBytes} bytes (${stat.size})` })
+        continue
+      }
+      files.push(fullPath)
+    }
+  }
+
+  walk(rootDir)
+  return files
+}
+
+const resolveOptions = (options: LoadOptions): Required<LoadOptions> => ({
+  recursive: options.recursive ?? true,
+  include: options.include ?? [],
+  exclude: options.exclude ?? DEFAULT_EXCLUDE,
+  maxFileSizeBytes: options.maxFileSizeBytes ?? DEFAULT_MAX_FILE_SIZE_BYTES,
+  followSymlinks: options.followSymlinks ?? false,
+})
+
+/**
+ * List the files loadLocalDocuments would load, without loading them.
+ * Files filtered out by size or symlink rules are reported in `skipped`.
+ */
+export const findLocalFiles = (
+  dirPath: string,
+  options: LoadOptions = {},
+): { files: string[]; skipped: SkippedFile[] } => {
+  const skipped: SkippedFile[] = []
+  const files = fs.existsSync(dirPath) ? collectFiles(dirPath, resolveOptions(options), skipped) : []
+  return { files, skipped }
+}
+
+/**
+ * Load one file with the loader registered for its extension.
+ * Throws for unsupported extensions, unreadable files and files with no extractable text.
+ */
+export const loadFile = async (filePath: string): Promise<Document[]> => {
+  const ext = path.extname(filePath).toLowerCase()
+  const loader = loaders.get(ext)
+  if (!loader) throw new Error(`unsupported extension "${ext || '(none)'}"`)
+  const loaded = await loader(filePath)
+  if (loaded.length === 0) throw new Error('no extractable text')
+  return loaded
+}
+
+/**
+ * Load local documents from a directory tree. Built-in formats: .txt, .md, .json, .pdf (one doc per page),
+ * .csv (one doc per row), .docx and .html; add more with registerLoader().
+ * Files that are unsupported, too large, unreadable or empty are skipped and listed in the report
+ * rather than failing the whole run.
+ */
+export const loadLocalDocumentsWithReport = async (dirPath: string, options: LoadOptions = {}): Promise<LoadReport> => {
+  console.log(`[File Loader] Loading from directory: ${dirPath}`)
+  const { files, skipped } = findLocalFiles(dirPath, options)
+  console.log(`[File Loader] Found ${files.length} files`)
+  const documents: Document[] = []
+
+  for (const filePath of files) {
+    try {
+      documents.push(...(await loadFile(filePath)))
+    } catch (err) {
+      skipped.push({ path: filePath, reason: err instanceof Error ? err.message : String(err) })
     }
   }
 
-  console.log('[File Loader] Documents', documents)
+  return { documents, skipped }
+}
 
+/**
+ * Same as loadLocalDocumentsWithReport, but only returns the documents and logs what was skipped
+ */
+export const loadLocalDocuments = async (dirPath: string, options: LoadOptions = {}): Promise<Document[]> => {
+  const { documents, skipped } = await loadLocalDocumentsWithReport(dirPath, options)
+  console.log(`[File Loader] Loaded ${documents.length} documents`)
+  skipped.forEach(({ path: filePath, reason }) => console.warn(`[File Loader] Skipped ${filePath}: ${reason}`))
   return documents
 }
@@ -0,0 +1,161 @@
+import { Document } from '@langchain/core/documents'
+import fs from 'fs'
+import path from 'path'
+
+import { sha1 } from '../embeddings/utils'
+import type { VectorStoreManager } from '../vector-store/vectorStoreManager'
+import { chunkDocuments } from './chunker'
+import { findLocalFiles, loadFile } from './fileLoader'
+import type { LoadOptions, SkippedFile } from './fileLoader'
+import { hashFile, IngestionManifest } from './manifest'
+import { preprocessDocuments } from './preprocessor'
+import type { DroppedDocument, PreprocessOptions } from './preprocessor'
+import { MinHashIndex } from './preprocessing'
+
+export interface IncrementalIngestOptions {
+  store: VectorStoreManager // must already be initialized
+  manifestPath: string
+  load?: LoadOptions
+  preprocess?: PreprocessOptions // clean each changed file before chunking (deduped against every ingested file)
+  dedupeIndex?: MinHashIndex // gets the ingested files' signatures, to dedupe other sources against them
+  chunkSize?: number
+  chunkOverlap?: number
+}
+
+export interface IngestSummary {
+  added: string[]
+  changed: string[]
+  unchanged: string[]
+  removed: string[]
+  skipped: SkippedFile[] // includes files that failed to load; their previous vectors are kept
+  dropped: DroppedDocument[] // documents removed by preprocessing
+  chunksAdded: number
+  vectorsDeleted: number
+}
+
+/**
+ * Chunk ids derive from the path and content hash, so a changed file never reuses the ids of its stale chunks
+ */
+const chunkIdsFor = (source: string, contentHash: string, count: number) =>
+  Array.from({ length: count }, (_, i) => `${sha1(source).slice(0, 12)}:${contentHash.slice(0, 12)}:${i}`)
+
+/**
+ * Ingest a directory into a vector store, only re-chunking and re-embedding what changed since the last run.
+ *
+ * - new files: loaded, chunked and added
+ * - changed files (different content hash): new chunks added, then the old vectors deleted
+ * - deleted files (or files no longer matched by include/exclude): their vectors deleted
+ * - unchanged files: skipped; a matching mtime + size skips even the hashing
+ *
+ * Manifest keys are absolute paths, so runs from different working directories agree. The MinHash
+ * signatures of kept documents are stored in the manifest too, so a changed file is deduped against
+ * the unchanged ones without reloading them.
+ */
+export const ingestIncrementally = async (
+  dirPath: string,
+  {
+    store,
+    manifestPath,
+    load = {},
+    preprocess,
+    dedupeIndex = new MinHashIndex(),
+    chunkSize = 1000,
+    chunkOverlap = 200,
+  }: IncrementalIngestOptions,
+): Promise<IngestSummary> => {
+  const rootDir = path.resolve(dirPath)
+  const manifest = new IngestionManifest(manifestPath)
+  const { files, skipped } = findLocalFiles(rootDir, load)
+  const summary: IngestSummary = {
+    added: [],
+    changed: [],
+    unchanged: [],
+    removed: [],
+    skipped,
+    dropped: [],
+    chunksAdded: 0,
+    vectorsDeleted: 0,
+  }
+  const seen = new Set<string>()
+  manifest.sources().forEach((source) => dedupeIndex.import(manifest.get(source)!.minHashes ?? {}))
+
+  try {
+    for (const filePath of files) {
+      seen.add(filePath)
+      const previous = manifest.get(filePath)
+      const { mtimeMs, size } = fs.statSync(filePath)
+      if (previous && previous.mtimeMs === mtimeMs && previous.size === size) {
+        summary.unchanged.push(filePath)
+        continue
+      }
+
+      const contentHash = hashFile(filePath)
+      if (previous && previous.contentHash === contentHash) {
+        // Touched but not edited: just remember the new mtime
+        manifest.set({ ...previous, mtimeMs, size })
+        summary.unchanged.push(filePath)
+        continue
+      }
+
+      let chunks: Document[]
+      // The old version mustn't count as a duplicate of the new one
+      dedupeIndex.removeSource(filePath)
+      try {
+        let docs = await loadFile(filePath)
+        if (preprocess) {
+          const report = await preprocessDocuments(docs, { ...preprocess, index: dedupeIndex })
+          docs = report.documents
+          summary.dropped.push(...report.dropped)
+        }
+        chunks = await chunkDocuments(docs, chunkSize, chunkOverlap)
+      } catch (err) {
+        dedupeIndex.removeSource(filePath)
+        dedupeIndex.import(previous?.minHashes ?? {})
+        skipped.push({ path: filePath, reason: err instanceof Error ? err.message : String(err) })
+        continue
+      }
+
+      const chunkIds = chunkIdsFor(filePath, contentHash, chunks.length)
+      const withIds = chunks.map(
+        (c, i) =>
+          new Document({ id: chunkIds[i], pageContent: c.pageContent, metadata: { ...c.metadata, contentHash } }),
+      )
+      // Add before deleting, so a failed add leaves the old version searchable
+      const vectorIds = withIds.length > 0 ? await store.addDocuments(withIds) : []
+      if (previous) {
+        await store.delete(previous.vectorIds)
+        summary.vectorsDeleted += previous.vectorIds.length
+      }
+
+      manifest.set({
+        source: filePath,
+        contentHash,
+        mtimeMs,
+        size,
+        chunkIds,
+        vectorIds,
+        minHashes: preprocess ? dedupeIndex.exportSource(filePath) : undefined,
+        ingestedAt: new Date().toISOString(),
+      })
+      summary.chunksAdded += chunks.length
+      ;(previous ? summary.changed : summary.added).push(filePath)
+    }
+
+    const failed = new Set(skipped.map((s) => s.path))
+    for (const source of manifest.sources()) {
+      // Only sources under this root are ours to remove; failed loads keep their last good vectors
+      if (seen.has(source) || failed.has(source) || path.relative(rootDir, source).startsWith('..')) continue
+      const { vectorIds } = manifest.get(source)!
+      await store.delete(vectorIds)
+      dedupeIndex.removeSource(source)
+      manifest.remove(source)
+      summary.vectorsDeleted += vectorIds.length
+      summary.removed.push(source)
+    }
+  } finally {
+    // Keep whatever was done so far, even if a store call failed midway
+    await store.persist()
+    manifest.save()
+  }
+  return summary
+}
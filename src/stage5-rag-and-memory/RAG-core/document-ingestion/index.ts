@@ -1,20 +1,46 @@
 import path from 'path'
-import { loadLocalDocuments } from './fileLoader'
 import { loadFromUrls } from './urlLoader'
 import { loadFromApi } from './apiLoader'
 import { chunkDocuments } from './chunker'
+import { ingestIncrementally } from './incrementalIngest'
+import { preprocessDocuments } from './preprocessor'
+import { MinHashIndex } from './preprocessing'
+import { VectorStoreManager } from '../vector-store/vectorStoreManager'
 
 async function main() {
   const dataDir = path.join(__dirname, 'data')
+  const stateDir = path.join(__dirname, '.cache')
 
-  const localDocs = await loadLocalDocuments(dataDir)
-  const webDocs = await loadFromUrls(['https://en.wikipedia.org/wiki/World_economy'])
-  const apiDocs = await loadFromApi('https://jsonplaceholder.typicode.com/posts?_start=0&_limit=10')
+  // Local files: only new or changed files are re-chunked and re-embedded on each run
+  const store = new VectorStoreManager('memory', { persistPath: path.join(stateDir, 'store.json') })
+  await store.init()
+  const dedupeIndex = new MinHashIndex()
+  const summary = await ingestIncrementally(dataDir, {
+    store,
+    manifestPath: path.join(stateDir, 'manifest.json'),
+    preprocess: {},
+    dedupeIndex,
+    chunkSize: 500,
+    chunkOverlap: 100,
+  })
+  console.log(
+    `Local: ${summary.added.length} added, ${summary.changed.length} changed, ${summary.unchanged.length} unchanged, ` +
+      `${summary.removed.length} removed (${summary.chunksAdded} chunks added, ${summary.vectorsDeleted} vectors deleted)`,
+  )
 
-  const allDocs = [...localDocs, ...webDocs, ...apiDocs]
-  const chunkedDocs = await chunkDocuments(allDocs)
+  const webDocs = await loadFromUrls(['https://en.wikipedia.org/wiki/World_economy'], { maxDepth: 1, maxPages: 10 })
+  const apiDocs = await loadFromApi('https://jsonplaceholder.typicode.com/posts', {
+    pagination: { type: 'page', pageParam: '_page', limitParam: '_limit', limit: 10 },
+    maxPages: 2,
+    mapping: { content: ['title', 'body'], metadata: { userId: 'userId' }, id: 'id' },
+  })
 
-  console.log(`Loaded ${allDocs.length} raw docs, chunked into ${chunkedDocs.length}`)
+  // Remote sources: clean and de-duplicate across web and API results and the local files before chunking
+  const { documents: remoteDocs, dropped } = await preprocessDocuments([...webDocs, ...apiDocs], { index: dedupeIndex })
+  dropped.forEach((d) => console.log(`Dropped ${d.source}: ${d.reason}${d.duplicateOf ? ` of ${d.duplicateOf}` : ''}`))
+  const chunkedDocs = await chunkDocuments(remoteDocs)
+
+  console.log(`Kept ${remoteDocs.length} remote docs, chunked into ${chunkedDocs.length}`)
 }
 
 main().catch(console.log)
@@ -0,0 +1,54 @@
+import { Document } from '@langchain/core/documents'
+import fs from 'fs'
+
+/**
+ * Minimal RFC 4180 parser: quoted fields, escaped quotes ("") and newlines inside quotes
+ */
+export const parseCsv = (raw: string, delimiter = ','): string[][] => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < raw.length; i++) {
+    const char = raw[i]
+    if (inQuotes) {
+      if (char === '"' && raw[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') inQuotes = false
+      else field += char
+    } else if (char === '"') inQuotes = true
+    else if (char === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && raw[i + 1] === '\n') i++
+      rows.push([...row, field])
+      row = []
+      field = ''
+    } else field += char
+  }
+  if (inQuotes) throw new Error('Unterminated quoted field')
+  if (field || row.length) rows.push([...row, field])
+
+  return rows.filter((r) => r.some((value) => value.trim() !== ''))
+}
+
+/**
+ * One document per data row. The header row names the columns; each column value is also
+ * copied into metadata so rows can be filtered (reserved keys like `source` win on collisions).
+ */
+export const loadCsv = async (filePath: string): Promise<Document[]> => {
+  const [header, ...rows] = parseCsv(fs.readFileSync(filePath, 'utf-8').replace(/^\uFEFF/, ''))
+  if (!header) return []
+  const columns = header.map((name, i) => name.trim() || `column_${i + 1}`)
+
+  return rows.map((values, i) => {
+    const record = Object.fromEntries(columns.map((col, j) => [col, values[j] ?? '']))
+    return new Document({
+      pageContent: columns.map((col) => `${col}: ${record[col]}`).join('\n'),
+      metadata: { ...record, source: filePath, type: 'csv', row: i + 1, columns },
+    })
+  })
+}
@@ -0,0 +1,11 @@
+import { Document } from '@langchain/core/documents'
+import mammoth from 'mammoth'
+
+/**
+ * Raw text of a Word document (formatting, images and comments are dropped)
+ */
+export const loadDocx = async (filePath: string): Promise<Document[]> => {
+  const { value } = await mammoth.extractRawText({ path: filePath })
+  const text = value.replace(/\n{3,}/g, '\n\n').trim()
+  return text ? [new Document({ pageContent: text, metadata: { source: filePath, type: 'docx' } })] : []
+}
@@ -0,0 +1,35 @@
+import { Document } from '@langchain/core/documents'
+import * as cheerio from 'cheerio'
+import fs from 'fs'
+
+// Page chrome that rarely carries content worth retrieving
+const BOILERPLATE_SELECTORS = 'script, style, noscript, template, svg, iframe, form, nav, header, footer, aside'
+
+/**
+ * Extract readable text from an HTML string: drop boilerplate, prefer <main>/<article> over <body>,
+ * keep block elements on separate lines.
+ */
+export const htmlToText = (html: string): { title?: string; text: string } => {
+  const $ = cheerio.load(html)
+  const title = $('title').first().text().trim() || undefined
+  $(BOILERPLATE_SELECTORS).remove()
+  $('[role="navigation"], [role="banner"], [role="contentinfo"], [aria-hidden="true"]').remove()
+  $('br').replaceWith('\n')
+  $('p, div, section, li, tr, h1, h2, h3, h4, h5, h6, pre, blockquote').after('\n')
+
+  const root = ['main', 'article', 'body'].map((sel) => $(sel).first()).find((el) => el.length > 0)
+  const text = (root ?? $.root())
+    .text()
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n')
+  return { title, text }
+}
+
+export const loadHtml = async (filePath: string): Promise<Document[]> => {
+  const { title, text } = htmlToText(fs.readFileSync(filePath, 'utf-8'))
+  return text
+    ? [new Document({ pageContent: text, metadata: { source: filePath, type: 'html', ...(title && { title }) } })]
+    : []
+}
@@ -0,0 +1,4 @@
+export { loadPdf } from './pdfLoader'
+export { loadCsv, parseCsv } from './csvLoader'
+export { loadDocx } from './docxLoader'
+export { loadHtml, htmlToText } from './htmlLoader'
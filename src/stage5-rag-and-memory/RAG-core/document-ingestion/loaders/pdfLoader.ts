@@ -0,0 +1,31 @@
+import { Document } from '@langchain/core/documents'
+import fs from 'fs'
+
+// pdf-parse v2's CommonJS typings point at undeclared .cjs modules, so describe the bit we use
+type PdfParser = {
+  getText(params?: { pageJoiner?: string }): Promise<{ pages: { num: number; text: string }[]; total: number }>
+  destroy(): Promise<void>
+}
+const { PDFParse } = require('pdf-parse') as { PDFParse: new (opts: { data: Buffer }) => PdfParser }
+
+/**
+ * One document per page, with `page` (1-based) and `totalPages` metadata.
+ * Pages with no extractable text (e.g. scanned images) are dropped.
+ */
+export const loadPdf = async (filePath: string): Promise<Document[]> => {
+  const parser = new PDFParse({ data: fs.readFileSync(filePath) })
+  try {
+    const { pages, total } = await parser.getText({ pageJoiner: '' })
+    return pages
+      .filter((p) => p.text.trim().length > 0)
+      .map(
+        (p) =>
+          new Document({
+            pageContent: p.text.trim(),
+            metadata: { source: filePath, type: 'pdf', page: p.num, totalPages: total },
+          }),
+      )
+  } finally {
+    await parser.destroy()
+  }
+}
@@ -0,0 +1,67 @@
+import crypto from 'crypto'
+import fs from 'fs'
+import path from 'path'
+
+/**
+ * What was ingested from one source file
+ */
+export interface ManifestEntry {
+  source: string
+  contentHash: string // sha256 of the raw file bytes
+  mtimeMs: number
+  size: number
+  chunkIds: string[] // ids given to the chunks
+  vectorIds: string[] // ids the vector store reported back (what delete() needs)
+  minHashes?: Record<string, string> // MinHash signatures of the documents dedupe kept, by label
+  ingestedAt: string
+}
+
+interface PersistedManifest {
+  version: 1
+  entries: Record<string, ManifestEntry>
+}
+
+export const hashFile = (filePath: string): string =>
+  crypto.createHash('sha256').update(fs.readFileSync(filePath)).digest('hex')
+
+/**
+ * JSON file recording, per source file, the content hash and the chunk/vector ids it produced,
+ * so re-runs can skip unchanged files and clean up after changed or deleted ones.
+ */
+export class IngestionManifest {
+  private entries = new Map<string, ManifestEntry>()
+  private filePath: string
+
+  constructor(filePath: string) {
+    this.filePath = filePath
+    if (fs.existsSync(filePath)) {
+      const data: PersistedManifest = JSON.parse(fs.readFileSync(filePath, 'utf-8'))
+      this.entries = new Map(Object.entries(data.entries))
+    }
+  }
+
+  get(source: string): ManifestEntry | undefined {
+    return this.entries.get(source)
+  }
+
+  set(entry: ManifestEntry) {
+    this.entries.set(entry.source, entry)
+  }
+
+  remove(source: string) {
+    this.entries.delete(source)
+  }
+
+  sources(): string[] {
+    return [...this.entries.keys()]
+  }
+
+  save() {
+    const data: PersistedManifest = { version: 1, entries: Object.fromEntries(this.entries) }
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true })
+    // Write-then-rename so a crash mid-write never leaves a truncated manifest
+    const tmpPath = `${this.filePath}.tmp`
+    fs.writeFileSync(tmpPath, JSON.stringify(data, null, 2))
+    fs.renameSync(tmpPath, this.filePath)
+  }
+}
@@ -0,0 +1,78 @@
+import { Document } from '@langchain/core/documents'
+
+// Lines that are chrome rather than content, wherever they appear
+const BOILERPLATE_LINE_PATTERNS = [
+  /^(skip to (main )?content|jump to (navigation|search))$/i,
+  /^(©|\(c\)|copyright)\s.*$/i,
+  /^((©|\(c\)|copyright\b|\d{4}\b).*)?all rights reserved\.?$/i,
+  /^(this (web)?site uses cookies|we use cookies)\b.*$/i,
+  /^(accept( all)?( cookies)?|cookie (settings|policy))$/i,
+  /^(subscribe to our newsletter|sign up for our newsletter).*$/i,
+  /^(share|share this|share on (facebook|twitter|x|linkedin))$/i,
+  /^(page \d+ of \d+|-- \d+ of \d+ --)$/i,
+  /^(back to top|print this page|advertisement)$/i,
+]
+
+// Repeated-line detection only considers lines long enough to be navigation/footer text
+const MIN_REPEATED_LINE_CHARS = 20
+const MIN_REPEATED_LINE_DOCS = 3
+const REPEATED_LINE_DOC_RATIO = 0.5
+
+const hostOf = (source: unknown): string | undefined => {
+  if (typeof source !== 'string' || !/^https?:\/\//.test(source)) return undefined
+  try {
+    return new URL(source).host
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Lines shared by most pages of the same site (menus, footers, banners).
+ * Only web sources are grouped: local files and API records legitimately repeat lines.
+ */
+const findRepeatedLines = (docs: Document[]): Map<string, Set<string>> => {
+  const docsByHost = new Map<string, Document[]>()
+  docs.forEach((doc) => {
+    const host = hostOf(doc.metadata?.source)
+    if (host) docsByHost.set(host, [...(docsByHost.get(host) ?? []), doc])
+  })
+
+  const repeatedByHost = new Map<string, Set<string>>()
+  for (const [host, hostDocs] of docsByHost) {
+    if (hostDocs.length < MIN_REPEATED_LINE_DOCS) continue
+    const docCounts = new Map<string, number>()
+    hostDocs.forEach((doc) =>
+      new Set(doc.pageContent.split('\n').map((l) => l.trim())).forEach((line) => {
+        if (line.length >= MIN_REPEATED_LINE_CHARS) docCounts.set(line, (docCounts.get(line) ?? 0) + 1)
+      }),
+    )
+    const minDocs = Math.max(MIN_REPEATED_LINE_DOCS, Math.ceil(hostDocs.length * REPEATED_LINE_DOC_RATIO))
+    repeatedByHost.set(host, new Set([...docCounts].filter(([, count]) => count >= minDocs).map(([line]) => line)))
+  }
+  return repeatedByHost
+}
+
+/**
+ * Strip boilerplate lines from every document
+ * @returns cleaned documents (same order) and how many lines were removed
+ */
+export const removeBoilerplate = (docs: Document[]): { documents: Document[]; linesRemoved: number } => {
+  const repeatedByHost = findRepeatedLines(docs)
+  let linesRemoved = 0
+
+  const documents = docs.map((doc) => {
+    const repeated = repeatedByHost.get(hostOf(doc.metadata?.source) ?? '')
+    const kept = doc.pageContent.split('\n').filter((line) => {
+      const trimmed = line.trim()
+      const isBoilerplate =
+        (trimmed.length > 0 && BOILERPLATE_LINE_PATTERNS.some((pattern) => pattern.test(trimmed))) ||
+        !!repeated?.has(trimmed)
+      if (isBoilerplate) linesRemoved++
+      return !isBoilerplate
+    })
+    return new Document({ id: doc.id, pageContent: kept.join('\n').trim(), metadata: doc.metadata })
+  })
+
+  return { documents, linesRemoved }
+}
@@ -0,0 +1,131 @@
+const NUM_HASHES = 128
+const BANDS = 32 // 32 bands x 4 rows: pairs above ~0.6 Jaccard almost always share a bucket
+const ROWS_PER_BAND = NUM_HASHES / BANDS
+const SHINGLE_SIZE = 5
+
+// Fixed seeds so signatures are stable across runs (mulberry32 PRNG)
+const seeds = (() => {
+  let state = 0x9e3779b9
+  const next = () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return (t ^ (t >>> 14)) >>> 0
+  }
+  return Array.from({ length: NUM_HASHES }, () => ({ a: next() | 1, b: next() }))
+})()
+
+const fnv1a = (text: string): number => {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Word 5-gram shingles (the whole text for very short documents)
+ */
+const shingles = (text: string): Set<number> => {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []
+  if (words.length <= SHINGLE_SIZE) return new Set([fnv1a(words.join(' '))])
+  const result = new Set<number>()
+  for (let i = 0; i <= words.length - SHINGLE_SIZE; i++) result.add(fnv1a(words.slice(i, i + SHINGLE_SIZE).join(' ')))
+  return result
+}
+
+export const minHashSignature = (text: string): Uint32Array => {
+  const signature = new Uint32Array(NUM_HASHES).fill(0xffffffff)
+  for (const shingle of shingles(text)) {
+    seeds.forEach(({ a, b }, i) => {
+      const value = (Math.imul(a, shingle) + b) >>> 0
+      if (value < signature[i]) signature[i] = value
+    })
+  }
+  return signature
+}
+
+/**
+ * Fraction of matching signature slots, an estimate of the Jaccard similarity of the shingle sets
+ */
+export const estimateJaccard = (a: Uint32Array, b: Uint32Array): number => {
+  let same = 0
+  for (let i = 0; i < a.length; i++) if (a[i] === b[i]) same++
+  return same / a.length
+}
+
+const bandKeys = (signature: Uint32Array): string[] =>
+  Array.from({ length: BANDS }, (_, band) => {
+    const rows = signature.subarray(band * ROWS_PER_BAND, (band + 1) * ROWS_PER_BAND)
+    return `${band}:${rows.join(',')}`
+  })
+
+const encodeSignature = (signature: Uint32Array): string =>
+  Buffer.from(signature.buffer, signature.byteOffset, signature.byteLength).toString('base64')
+
+const decodeSignature = (encoded: string): Uint32Array =>
+  new Uint32Array(new Uint8Array(Buffer.from(encoded, 'base64')).buffer)
+
+// Labels are `source` or `source#position`
+const belongsTo = (label: string, source: string) => label === source || label.startsWith(`${source}#`)
+
+/**
+ * MinHash LSH index of kept documents, by label (`source` or `source#position`). Signatures can be
+ * exported per source and imported again, so near-duplicates are caught across sources and runs.
+ */
+export class MinHashIndex {
+  private entries = new Map<number, { label: string; signature: Uint32Array }>()
+  private buckets = new Map<string, number[]>()
+  private nextId = 0
+
+  add(label: string, signature: Uint32Array) {
+    const id = this.nextId++
+    this.entries.set(id, { label, signature })
+    bandKeys(signature).forEach((key) => this.buckets.set(key, [...(this.buckets.get(key) ?? []), id]))
+  }
+
+  /**
+   * Most similar indexed document at or above the threshold
+   */
+  match(signature: Uint32Array, threshold: number): { label: string; similarity: number } | undefined {
+    let best: { label: string; similarity: number } | undefined
+    const candidates = new Set(bandKeys(signature).flatMap((key) => this.buckets.get(key) ?? []))
+    for (const id of candidates) {
+      const { label, signature: other } = this.entries.get(id)!
+      const similarity = estimateJaccard(signature, other)
+      if (similarity >= threshold && (!best || similarity > best.similarity)) best = { label, similarity }
+    }
+    return best
+  }
+
+  /**
+   * Forget a source's documents (e.g. before re-ingesting a changed file)
+   */
+  removeSource(source: string) {
+    for (const [id, { label, signature }] of this.entries) {
+      if (!belongsTo(label, source)) continue
+      this.entries.delete(id)
+      bandKeys(signature).forEach((key) => {
+        const ids = this.buckets.get(key)!.filter((other) => other !== id)
+        if (ids.length > 0) this.buckets.set(key, ids)
+        else this.buckets.delete(key)
+      })
+    }
+  }
+
+  /**
+   * A source's signatures as base64 strings by label, for persisting
+   */
+  exportSource(source: string): Record<string, string> {
+    const exported: Record<string, string> = {}
+    for (const { label, signature } of this.entries.values()) {
+      if (belongsTo(label, source)) exported[label] = encodeSignature(signature)
+    }
+    return exported
+  }
+
+  import(signatures: Record<string, string>) {
+    Object.entries(signatures).forEach(([label, encoded]) => this.add(label, decodeSignature(encoded)))
+  }
+}
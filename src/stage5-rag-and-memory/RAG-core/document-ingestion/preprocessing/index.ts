@@ -0,0 +1,4 @@
+export { normalizeText } from './normalize'
+export { removeBoilerplate } from './boilerplate'
+export { detectLanguage } from './language'
+export { estimateJaccard, minHashSignature, MinHashIndex } from './dedup'
@@ -0,0 +1,47 @@
+// Scripts that identify a language (or a close family) on their own
+const SCRIPTS: [string, RegExp][] = [
+  ['ja', /[\u3040-\u30FF]/g], // kana first: Japanese text also uses Han characters
+  ['ko', /[\uAC00-\uD7AF]/g],
+  ['zh', /[\u4E00-\u9FFF]/g],
+  ['ru', /[\u0400-\u04FF]/g],
+  ['ar', /[\u0600-\u06FF]/g],
+  ['he', /[\u0590-\u05FF]/g],
+  ['el', /[\u0370-\u03FF]/g],
+  ['hi', /[\u0900-\u097F]/g],
+  ['th', /[\u0E00-\u0E7F]/g],
+]
+
+// Very frequent function words of Latin-script languages
+const STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'is', 'of', 'to', 'in', 'that', 'it', 'for', 'with', 'you', 'this', 'are', 'on'],
+  es: ['el', 'la', 'de', 'que', 'y', 'en', 'los', 'del', 'se', 'las', 'por', 'una', 'para', 'con'],
+  fr: ['le', 'la', 'de', 'et', 'les', 'des', 'est', 'un', 'une', 'du', 'en', 'que', 'pour', 'dans'],
+  de: ['der', 'die', 'und', 'das', 'ist', 'nicht', 'den', 'mit', 'ein', 'eine', 'zu', 'auf', 'für', 'sie'],
+  it: ['il', 'di', 'che', 'e', 'la', 'per', 'un', 'non', 'una', 'sono', 'del', 'della', 'con', 'gli'],
+  pt: ['o', 'de', 'que', 'e', 'do', 'da', 'em', 'um', 'para', 'com', 'não', 'uma', 'os', 'no'],
+  nl: ['de', 'het', 'een', 'en', 'van', 'ik', 'te', 'dat', 'die', 'is', 'niet', 'op', 'voor', 'met'],
+}
+const STOPWORD_SETS = Object.entries(STOPWORDS).map(([lang, words]) => [lang, new Set(words)] as const)
+
+const MIN_WORDS = 5
+
+/**
+ * Lightweight language identification (ISO 639-1 code, or 'und' when unsure):
+ * script detection for non-Latin text, stopword hits for common Latin-script languages.
+ */
+export const detectLanguage = (text: string): string => {
+  const sample = text.slice(0, 5000)
+  const letters = sample.match(/\p{L}/gu)?.length ?? 0
+  if (letters === 0) return 'und'
+
+  for (const [lang, pattern] of SCRIPTS) {
+    if ((sample.match(pattern)?.length ?? 0) / letters > 0.3) return lang
+  }
+
+  const words = sample.toLowerCase().match(/\p{L}+/gu) ?? []
+  if (words.length < MIN_WORDS) return 'und'
+  const scores = STOPWORD_SETS.map(([lang, set]) => [lang, words.filter((w) => set.has(w)).length] as const)
+  const [bestLang, bestScore] = scores.reduce((best, s) => (s[1] > best[1] ? s : best))
+  // Require a few percent of the words to be stopwords, or it's probably code, data or another language
+  return bestScore / words.length >= 0.05 ? bestLang : 'und'
+}
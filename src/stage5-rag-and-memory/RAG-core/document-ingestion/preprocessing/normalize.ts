@@ -0,0 +1,17 @@
+/**
+ * Whitespace/Unicode cleanup that doesn't change meaning:
+ * NFKC (full-width forms, ligatures), no zero-width or control characters, unified line endings,
+ * words re-joined across hyphenated line breaks (a common PDF/OCR artifact), collapsed blank runs.
+ */
+export const normalizeText = (text: string): string =>
+  text
+    .normalize('NFKC')
+    .replace(/\r\n?/g, '\n')
+    .replace(/[\u200B-\u200D\u2060\uFEFF]/g, '')
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]/g, '')
+    .replace(/\u00A0/g, ' ')
+    .replace(/([a-z])-\n([a-z])/g, '$1$2')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ ?\n ?/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
@@ -0,0 +1,96 @@
+import { Document } from '@langchain/core/documents'
+
+import { detectLanguage, minHashSignature, MinHashIndex, normalizeText, removeBoilerplate } from './preprocessing'
+
+export interface PreprocessOptions {
+  normalize?: boolean // whitespace/Unicode cleanup (default true)
+  removeBoilerplate?: boolean // cookie banners, footers, lines repeated across a site's pages (default true)
+  detectLanguage?: boolean // sets metadata.language (default true)
+  dedupe?: boolean // exact + MinHash near-duplicate removal across all sources (default true)
+  nearDuplicateThreshold?: number // estimated Jaccard similarity of word 5-grams (default 0.85)
+  index?: MinHashIndex // documents kept by earlier calls or runs to dedupe against; kept documents are added to it
+}
+
+export interface DroppedDocument {
+  source: string
+  reason: 'empty' | 'duplicate' | 'near-duplicate'
+  duplicateOf?: string // source of the kept document
+  similarity?: number
+}
+
+export interface PreprocessReport {
+  documents: Document[]
+  dropped: DroppedDocument[]
+  boilerplateLinesRemoved: number
+}
+
+const sourceOf = (doc: Document) => {
+  const { source = 'unknown', page, index, row } = doc.metadata ?? {}
+  const position = page ?? index ?? row
+  return position === undefined ? String(source) : `${source}#${position}`
+}
+
+/**
+ * Cleanup stage between loading and chunking: normalize → strip boilerplate → drop empty docs
+ * → detect language → drop duplicates. When documents are duplicated, the first one in input
+ * order is kept, so put the most trusted source first.
+ */
+export const preprocessDocuments = async (
+  docs: Document[],
+  options: PreprocessOptions = {},
+): Promise<PreprocessReport> => {
+  const {
+    normalize = true,
+    removeBoilerplate: stripBoilerplate = true,
+    detectLanguage: addLanguage = true,
+    dedupe = true,
+    nearDuplicateThreshold = 0.85,
+  } = options
+  console.log(`[Preprocessor] Input documents: ${docs.length}`)
+  const dropped: DroppedDocument[] = []
+
+  let documents = normalize
+    ? docs.map((d) => new Document({ id: d.id, pageContent: normalizeText(d.pageContent), metadata: d.metadata }))
+    : docs
+
+  let boilerplateLinesRemoved = 0
+  if (stripBoilerplate) {
+    const cleaned = removeBoilerplate(documents)
+    documents = cleaned.documents
+    boilerplateLinesRemoved = cleaned.linesRemoved
+  }
+
+  documents = documents.filter((doc) => {
+    if (doc.pageContent.trim()) return true
+    dropped.push({ source: sourceOf(doc), reason: 'empty' })
+    return false
+  })
+
+  if (addLanguage) {
+    documents.forEach((doc) => (doc.metadata = { ...doc.metadata, language: detectLanguage(doc.pageContent) }))
+  }
+
+  if (dedupe) {
+    const index = options.index ?? new MinHashIndex()
+    documents = documents.filter((doc) => {
+      const signature = minHashSignature(doc.pageContent)
+      const match = index.match(signature, nearDuplicateThreshold)
+      if (!match) {
+        index.add(sourceOf(doc), signature)
+        return true
+      }
+      dropped.push({
+        source: sourceOf(doc),
+        reason: match.similarity === 1 ? 'duplicate' : 'near-duplicate',
+        duplicateOf: match.label,
+        similarity: match.similarity,
+      })
+      return false
+    })
+  }
+
+  console.log(
+    `[Preprocessor] Output documents: ${documents.length} (dropped ${dropped.length}, boilerplate lines removed ${boilerplateLinesRemoved})`,
+  )
+  return { documents, dropped, boilerplateLinesRemoved }
+}
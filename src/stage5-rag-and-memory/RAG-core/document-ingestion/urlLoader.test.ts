@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict'
+import http from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { after, before, describe, it } from 'node:test'
+
+import { loadFromUrls } from './urlLoader'
+
+describe('loadFromUrls', () => {
+  let server: http.Server
+  let origin: string
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      if (req.url === '/robots.txt') {
+        res.writeHead(404)
+        return res.end()
+      }
+      if (req.url === '/guide') {
+        res.writeHead(200, { 'Content-Type': 'text/html' })
+        return res.end(
+          '<html><head><title>Guide</title></head><body><main><h1>Setup</h1><p>Run the installer.</p></main></body></html>',
+        )
+      }
+      if (req.url === '/old-guide') {
+        res.writeHead(302, { Location: '/guide' })
+        return res.end()
+      }
+      res.writeHead(404)
+      res.end()
+    })
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+  after(() => new Promise<void>((resolve) => server.close(() => resolve())))
+
+  it('loads pages as documents with page metadata', async () => {
+    const [doc, ...rest] = await loadFromUrls([`${origin}/guide`], { minIntervalMs: 0 })
+    assert.equal(rest.length, 0)
+    assert.equal(doc.pageContent, 'Setup\nRun the installer.')
+    assert.equal(doc.metadata.source, `${origin}/guide`)
+    assert.equal(doc.metadata.title, 'Guide')
+    assert.equal(doc.metadata.type, 'html')
+    assert.ok(!Number.isNaN(Date.parse(doc.metadata.fetchedAt)))
+  })
+
+  it('uses the redirect target as the source', async () => {
+    const docs = await loadFromUrls([`${origin}/old-guide`], { minIntervalMs: 0 })
+    assert.deepEqual(
+      docs.map((d) => d.metadata.source),
+      [`${origin}/guide`],
+    )
+  })
+
+  it('skips pages that fail instead of throwing', async () => {
+    const docs = await loadFromUrls([`${origin}/missing`, `${origin}/guide`], { minIntervalMs: 0 })
+    assert.deepEqual(
+      docs.map((d) => d.metadata.title),
+      ['Guide'],
+    )
+  })
+})
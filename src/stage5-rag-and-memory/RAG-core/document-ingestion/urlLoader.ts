@@ -1,17 +1,19 @@
-import { CheerioWebBaseLoader } from '@langchain/community/document_loaders/web/cheerio'
 import { Document } from '@langchain/core/documents'
 
-export const loadFromUrls = async (urls: string[]): Promise<Document[]> => {
-  const documents: Document[] = []
+import { crawl } from './crawler'
+import type { CrawlOptions } from './crawler'
 
-  for (const url of urls) {
-    const loader = new CheerioWebBaseLoader(url)
-    const loaded = await loader.load()
-    loaded.forEach((d: Document) => (d.metadata = { ...d.metadata, source: url }))
-    documents.push(...loaded)
-  }
+/**
+ * Load web pages as documents (main content only). With `maxDepth` > 0 this crawls:
+ * same-site links are followed breadth-first, politely (robots.txt, per-host rate limits).
+ * Pages that fail or are disallowed are skipped and logged.
+ * @example loadFromUrls(['https://docs.example.com'], { maxDepth: 2, maxPages: 50 })
+ */
+export const loadFromUrls = async (urls: string[], options: CrawlOptions = {}): Promise<Document[]> => {
+  const { documents, skipped } = await crawl(urls, options)
 
-  console.log('[URL Loader] Documents', documents)
+  console.log(`[URL Loader] Loaded ${documents.length} pages`)
+  skipped.forEach(({ url, reason }) => console.warn(`[URL Loader] Skipped ${url}: ${reason}`))
 
   return documents
 }
@@ -0,0 +1,93 @@
+import fs from 'fs'
+import path from 'path'
+
+import type { EmbeddingCache } from '../types'
+
+type CacheLine = { k: string; v?: number[]; d?: true }
+
+/**
+ * Append-only file cache (one JSON object per line).
+ *
+ * Writes only append the new vectors instead of rewriting the whole file, so
+ * large caches stay cheap to update. Deletes are recorded as tombstones; call
+ * `compact()` occasionally to rewrite the file with live entries only.
+ */
+export class FileEmbeddingCache implements EmbeddingCache {
+  private filePath: string
+  private entries = new Map<string, number[]>()
+
+  constructor(filePath: string) {
+    this.filePath = filePath
+    this.load()
+  }
+
+  /**
+   * Replay the log into memory (last write wins)
+   */
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) return
+
+    const lines = fs.readFileSync(this.filePath, 'utf-8').split('\n')
+    let skipped = 0
+
+    for (const line of lines) {
+      if (!line.trim()) continue
+      try {
+        const entry: CacheLine = JSON.parse(line)
+        if (entry.d) this.entries.delete(entry.k)
+        else if (entry.v) this.entries.set(entry.k, entry.v)
+      } catch {
+        // A partially written last line (e.g. process killed mid-append) shouldn't lose the whole cache
+        skipped++
+      }
+    }
+
+    console.log(`[FileEmbeddingCache] Loaded ${this.entries.size} cached embeddings`)
+    if (skipped) console.warn(`[FileEmbeddingCache] Skipped ${skipped} unreadable lines in ${this.filePath}`)
+  }
+
+  private append(lines: CacheLine[]): void {
+    if (lines.length === 0) return
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true })
+    fs.appendFileSync(this.filePath, lines.map((l) => JSON.stringify(l)).join('\n') + '\n')
+  }
+
+  async getMany(keys: string[]): Promise<(number[] | undefined)[]> {
+    return keys.map((key) => this.entries.get(key))
+  }
+
+  async setMany(entries: [string, number[]][]): Promise<void> {
+    entries.forEach(([key, vector]) => this.entries.set(key, vector))
+    this.append(entries.map(([k, v]) => ({ k, v })))
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    const existing = keys.filter((key) => this.entries.delete(key))
+    this.append(existing.map((k) => ({ k, d: true })))
+  }
+
+  async clear(prefix?: string): Promise<void> {
+    if (!prefix) {
+      this.entries.clear()
+      if (fs.existsSync(this.filePath)) fs.rmSync(this.filePath)
+      return
+    }
+    await this.delete([...this.entries.keys()].filter((key) => key.startsWith(prefix)))
+  }
+
+  async size(prefix?: string): Promise<number> {
+    if (!prefix) return this.entries.size
+    return [...this.entries.keys()].filter((key) => key.startsWith(prefix)).length
+  }
+
+  /**
+   * Rewrite the log with live entries only (drops overwritten values and tombstones)
+   */
+  async compact(): Promise<void> {
+    const tmpPath = `${this.filePath}.tmp`
+    const lines = [...this.entries].map(([k, v]) => JSON.stringify({ k, v }))
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true })
+    fs.writeFileSync(tmpPath, lines.length ? lines.join('\n') + '\n' : '')
+    fs.renameSync(tmpPath, this.filePath)
+  }
+}
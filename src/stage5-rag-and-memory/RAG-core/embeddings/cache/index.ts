@@ -0,0 +1,4 @@
+export { MemoryEmbeddingCache } from './memoryCache'
+export { FileEmbeddingCache } from './fileCache'
+export { RedisEmbeddingCache } from './redisCache'
+export type { RedisEmbeddingCacheOptions } from './redisCache'
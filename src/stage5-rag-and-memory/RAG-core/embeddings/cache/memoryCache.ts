@@ -0,0 +1,42 @@
+import { LRUCache } from 'lru-cache'
+
+import type { EmbeddingCache } from '../types'
+
+const DEFAULT_MAX_SIZE = 50000
+
+/**
+ * In-memory LRU cache. Lives only as long as the owning EmbeddingService.
+ */
+export class MemoryEmbeddingCache implements EmbeddingCache {
+  readonly maxSize: number
+  private lru: LRUCache<string, number[]>
+
+  constructor(maxSize = DEFAULT_MAX_SIZE) {
+    this.maxSize = maxSize
+    this.lru = new LRUCache<string, number[]>({ max: maxSize })
+  }
+
+  async getMany(keys: string[]): Promise<(number[] | undefined)[]> {
+    return keys.map((key) => this.lru.get(key))
+  }
+
+  async setMany(entries: [string, number[]][]): Promise<void> {
+    entries.forEach(([key, vector]) => this.lru.set(key, vector))
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    keys.forEach((key) => this.lru.delete(key))
+  }
+
+  async clear(prefix?: string): Promise<void> {
+    if (!prefix) return this.lru.clear()
+    for (const key of [...this.lru.keys()]) {
+      if (key.startsWith(prefix)) this.lru.delete(key)
+    }
+  }
+
+  async size(prefix?: string): Promise<number> {
+    if (!prefix) return this.lru.size
+    return [...this.lru.keys()].filter((key) => key.startsWith(prefix)).length
+  }
+}
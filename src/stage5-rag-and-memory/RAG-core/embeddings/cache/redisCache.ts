@@ -0,0 +1,75 @@
+import { createClient, RedisClientType } from 'redis'
+
+import type { EmbeddingCache } from '../types'
+
+export interface RedisEmbeddingCacheOptions {
+  url?: string // ignored when a client is passed
+  client?: RedisClientType
+  ttlSeconds?: number
+}
+
+/**
+ * Redis-backed cache, shareable across processes and machines.
+ * Vectors are stored as JSON strings under the (already namespaced) cache key.
+ */
+export class RedisEmbeddingCache implements EmbeddingCache {
+  private client: RedisClientType
+  private ownsClient: boolean
+  private ttlSeconds?: number
+
+  constructor(opts: RedisEmbeddingCacheOptions = {}) {
+    this.ownsClient = !opts.client
+    this.client =
+      opts.client ??
+      (createClient({ url: opts.url ?? process.env.REDIS_URL ?? 'redis://localhost:6379' }) as RedisClientType)
+    this.ttlSeconds = opts.ttlSeconds
+  }
+
+  private async connect(): Promise<RedisClientType> {
+    if (!this.client.isOpen) await this.client.connect()
+    return this.client
+  }
+
+  private async scanKeys(prefix = ''): Promise<string[]> {
+    const client = await this.connect()
+    const keys: string[] = []
+    for await (const batch of client.scanIterator({ MATCH: `${prefix}*`, COUNT: 500 })) {
+      keys.push(...batch)
+    }
+    return keys
+  }
+
+  async getMany(keys: string[]): Promise<(number[] | undefined)[]> {
+    if (keys.length === 0) return []
+    const client = await this.connect()
+    const values = await client.mGet(keys)
+    return values.map((v) => (v ? (JSON.parse(v) as number[]) : undefined))
+  }
+
+  async setMany(entries: [string, number[]][]): Promise<void> {
+    if (entries.length === 0) return
+    const client = await this.connect()
+    const multi = client.multi()
+    const options = this.ttlSeconds ? { expiration: { type: 'EX' as const, value: this.ttlSeconds } } : undefined
+    entries.forEach(([key, vector]) => multi.set(key, JSON.stringify(vector), options))
+    await multi.exec()
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    if (keys.length === 0) return
+    const client = await this.connect()
+    await client.del(keys)
+  }
+
+  async clear(prefix = 'emb:'): Promise<void> {
+    await this.delete(await this.scanKeys(prefix))
+  }
+
+  async size(prefix = 'emb:'): Promise<number> {
+    return (await this.scanKeys(prefix)).length
+  }
+
+  async close(): Promise<void> {
+    if (this.ownsClient && this.client.isOpen) await this.client.quit()
+  }
+}
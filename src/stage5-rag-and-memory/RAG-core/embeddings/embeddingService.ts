@@ -1,30 +1,50 @@
-import fs from 'fs'
-
+import { LRUCache } from 'lru-cache'
 import { OpenAIProvider } from './providers/openaiEmbeddings'
 import { CohereProvider } from './providers/cohereEmbeddings'
-import { EmbeddingRecord, EmbeddingProviderName, EmbeddingServiceOptions, DocumentWithId } from './types'
-import { sha1, getCacheKey } from './utils/hash'
+import { LocalProvider } from './providers/localEmbeddings'
+import { FileEmbeddingCache, MemoryEmbeddingCache } from './cache'
+import {
+  EmbeddingRecord,
+  EmbeddingProviderName,
+  EmbeddingServiceOptions,
+  DocumentWithId,
+  EmbeddingCache,
+  EmbeddingProvider,
+  EmbeddingStats,
+} from './types'
+import { sha1, getCacheKey, getCacheNamespace, getCachePrefix } from './utils/hash'
+import { assertDimensions } from './utils/dimensions'
+import { estimateTokens, getPricePer1MTokens } from './utils/cost'
 
 const DEFAULT_BATCH_SIZE = 64
 const DEFAULT_CACHE_SIZE = 50000
-
-// Simple in-memory cache (swap for Redis/file if needed)
-let cache: any
+const QUERY_CACHE_SIZE = 1000
 
 export class EmbeddingService {
-  private provider: any
+  private provider: EmbeddingProvider
+  private providerName: EmbeddingProviderName
   private batchSize: number
-  private cacheEnabled: boolean
-  private cacheFile?: string
+  private cache?: EmbeddingCache
+  private queryCache?: LRUCache<string, number[]>
+  private namespace: string
+  private dimensions?: number
+  private pricePer1MTokens: number
+  private counters = { hits: 0, misses: 0, batches: 0, retries: 0, tokensEmbedded: 0 }
   private pRetry: any
 
   constructor(
     providerName: EmbeddingProviderName,
-    opts: EmbeddingServiceOptions & { cacheEnabled?: boolean; cacheFile?: string } = {},
+    opts: EmbeddingServiceOptions & {
+      cacheEnabled?: boolean
+      cacheFile?: string
+      cache?: EmbeddingCache
+      cacheSize?: number
+      pricePer1MTokens?: number // overrides the built-in price table
+    } = {},
   ) {
+    this.providerName = providerName
     this.batchSize = opts.batchSize ?? DEFAULT_BATCH_SIZE
-    this.cacheEnabled = opts.cacheEnabled ?? true
-    this.cacheFile = opts.cacheFile
+    this.dimensions = opts.dimensions
 
     // Initialize provider
     switch (providerName) {
@@ -34,13 +54,24 @@ export class EmbeddingService {
       case 'cohere':
         this.provider = new CohereProvider(opts)
         break
+      case 'huggingface':
+        this.provider = new LocalProvider(opts)
+        break
       default:
         throw new Error(`Unknown provider: ${providerName}`)
     }
-
-    // Load cache from file if specified
-    if (this.cacheFile && fs.existsSync(this.cacheFile)) {
-      this.loadCacheFromFile()
+    this.namespace = getCacheNamespace(providerName, this.provider.model)
+    this.pricePer1MTokens = opts.pricePer1MTokens ?? getPricePer1MTokens(this.namespace)
+
+    // Each instance owns its cache; an explicit backend wins over cacheFile
+    if (opts.cacheEnabled ?? true) {
+      this.cache =
+        opts.cache ??
+        (opts.cacheFile
+          ? new FileEmbeddingCache(opts.cacheFile)
+          : new MemoryEmbeddingCache(opts.cacheSize ?? DEFAULT_CACHE_SIZE))
+      // Queries are one-off, so they get a small in-process LRU instead of the persistent cache
+      this.queryCache = new LRUCache<string, number[]>({ max: QUERY_CACHE_SIZE })
     }
   }
 
@@ -48,70 +79,32 @@ export class EmbeddingService {
    * Initialize ES modules dynamically
    */
   private async initializeModules(): Promise<void> {
-    if (!cache) {
-      const LRU = (await import('lru-cache')).LRUCache
-      cache = new LRU<string, number[]>({ max: DEFAULT_CACHE_SIZE })
-    }
     if (!this.pRetry) {
       this.pRetry = (await import('p-retry')).default
     }
   }
 
   /**
-   * Load cache from file
-   */
-  private loadCacheFromFile(): void {
-    if (!this.cacheFile) return
-
-    try {
-      const data = fs.readFileSync(this.cacheFile, 'utf-8')
-      const cacheData = JSON.parse(data)
-
-      // Clear existing cache and populate with file data
-      cache.clear()
-      Object.entries(cacheData).forEach(([key, value]) => {
-        cache.set(key, value as number[])
-      })
-
-      console.log(`[EmbeddingService] Loaded ${Object.keys(cacheData).length} cached embeddings`)
-    } catch (error) {
-      console.warn(`[EmbeddingService] Failed to load cache from file: ${error}`)
-    }
-  }
-
-  /**
-   * Save cache to file
-   */
-  private saveCacheToFile(): void {
-    if (!this.cacheFile || !this.cacheEnabled) return
-
-    try {
-      const cacheData: Record<string, number[]> = {}
-      cache.forEach((value: any, key: any) => {
-        cacheData[key] = value
-      })
-
-      fs.writeFileSync(this.cacheFile, JSON.stringify(cacheData, null, 2))
-      console.log(`[EmbeddingService] Saved ${Object.keys(cacheData).length} embeddings to cache file`)
-    } catch (error) {
-      console.warn(`[EmbeddingService] Failed to save cache to file: ${error}`)
-    }
-  }
-
-  /**
-   * Embed a batch of texts with retry logic
+   * Embed a batch of texts with retry logic.
+   * Rejects batches whose vectors don't match each other or the dimension seen so far.
    */
   private async embedBatch(texts: string[]): Promise<number[][]> {
     await this.initializeModules()
-    return await this.pRetry(() => this.provider.embed(texts), {
+    const vectors: number[][] = await this.pRetry(() => this.provider.embed(texts), {
       retries: 3,
       factor: 2,
       minTimeout: 1000,
       maxTimeout: 10000,
-      onFailedAttempt: (error: any) => {
-        console.warn(`[EmbeddingService] Batch embedding attempt ${error.attemptNumber} failed: ${error.message}`)
+      onFailedAttempt: ({ error, attemptNumber, retriesLeft }: any) => {
+        if (retriesLeft > 0) this.counters.retries++
+        console.warn(`[EmbeddingService] Batch embedding attempt ${attemptNumber} failed: ${error.message}`)
       },
     })
+    this.dimensions = assertDimensions(vectors, this.dimensions)
+
+    this.counters.batches++
+    this.counters.tokensEmbedded += texts.reduce((sum, text) => sum + estimateTokens(text), 0)
+    return vectors
   }
 
   /**
@@ -120,33 +113,79 @@ export class EmbeddingService {
    * @returns Promise<EmbeddingRecord[]> Array of embedding records
    */
   async embedDocuments(docs: DocumentWithId[]): Promise<EmbeddingRecord[]> {
+    return this.embedWithCache(docs, true)
+  }
+
+  /**
+   * Embed a single query string. Query vectors never reach the document cache.
+   */
+  async embedQuery(text: string): Promise<number[]> {
+    const cached = this.queryCache?.get(text)
+    if (cached && (this.dimensions === undefined || cached.length === this.dimensions)) {
+      this.counters.hits++
+      return cached
+    }
+    if (this.queryCache) this.counters.misses++
+
+    const [vector] = await this.embedBatch([text])
+    this.queryCache?.set(text, vector)
+    return vector
+  }
+
+  /**
+   * Migration path after a model change: ignore cached vectors, embed everything
+   * with the current provider/model and overwrite the cache.
+   * @param docs Documents to refresh
+   * @param opts.previousModel If given, cached vectors of that model (same provider) are dropped
+   */
+  async reembed(docs: DocumentWithId[], opts: { previousModel?: string } = {}): Promise<EmbeddingRecord[]> {
+    const records = await this.embedWithCache(docs, false)
+
+    if (this.cache && opts.previousModel) {
+      const previousNamespace = getCacheNamespace(this.providerName, opts.previousModel)
+      if (previousNamespace !== this.namespace) {
+        await this.cache.clear(getCachePrefix(previousNamespace))
+        console.log(`[EmbeddingService] Dropped cached vectors for ${previousNamespace}`)
+      }
+    }
+
+    return records
+  }
+
+  private async embedWithCache(docs: DocumentWithId[], readCache: boolean): Promise<EmbeddingRecord[]> {
     await this.initializeModules()
 
     const results: EmbeddingRecord[] = []
     const toBatch: { idx: number; text: string; id: string }[] = []
 
     // Prepare batch list and consult cache
+    const ids = docs.map((d) => d.id ?? sha1(d.text))
+    const cached =
+      this.cache && readCache ? await this.cache.getMany(docs.map((d) => getCacheKey(this.namespace, d.text))) : []
+
     for (let i = 0; i < docs.length; i++) {
       const text = docs[i].text
-      const id = docs[i].id ?? sha1(text)
-      const key = getCacheKey(id)
-
-      if (this.cacheEnabled) {
-        const cached = cache.get(key)
-        if (cached) {
-          results.push({
-            id,
-            text,
-            vector: cached,
-            metadata: docs[i].metadata ?? {},
-          })
-          continue
-        }
+      const id = ids[i]
+
+      // A cached vector of the wrong size (e.g. written before a dimension change) counts as a miss
+      if (cached[i] && (this.dimensions === undefined || cached[i]!.length === this.dimensions)) {
+        results.push({
+          id,
+          text,
+          vector: cached[i]!,
+          metadata: docs[i].metadata ?? {},
+        })
+        continue
       }
 
       toBatch.push({ idx: i, text, id })
     }
 
+    if (this.cache && readCache) {
+      this.counters.hits += results.length
+      this.counters.misses += toBatch.length
+    }
+
     console.log(`[EmbeddingService] Processing ${toBatch.length} new embeddings (${results.length} from cache)`)
 
     // Process in batches
@@ -162,14 +201,14 @@ export class EmbeddingService {
 
       const vectors = await this.embedBatch(texts)
 
+      // Persist per batch so a failure later in the run keeps the work already paid for
+      if (this.cache) {
+        await this.cache.setMany(vectors.map((vec, j) => [getCacheKey(this.namespace, batch[j].text), vec]))
+      }
+
       vectors.forEach((vec, j) => {
         const id = batch[j].id
         const metadata = docs[batch[j].idx].metadata ?? {}
-        const key = getCacheKey(id)
-
-        if (this.cacheEnabled) {
-          cache.set(key, vec)
-        }
 
         results.push({
           id,
@@ -180,33 +219,52 @@ export class EmbeddingService {
       })
     }
 
-    // Save cache to file if enabled
-    if (this.cacheEnabled && this.cacheFile) {
-      this.saveCacheToFile()
-    }
+    // Cached and fresh vectors must agree before they reach a vector store
+    this.dimensions = assertDimensions(
+      results.map((r) => r.vector),
+      this.dimensions,
+    )
 
     return results
   }
 
   /**
-   * Get cache statistics
+   * Get cache statistics plus hit/miss, batch, retry and cost counters for this instance
    */
-  async getCacheStats(): Promise<{ size: number; maxSize: number; hitRate?: number }> {
-    await this.initializeModules()
+  async getCacheStats(): Promise<EmbeddingStats & { size: number; maxSize?: number }> {
+    const { hits, misses, tokensEmbedded } = this.counters
+
     return {
-      size: cache.size,
-      maxSize: cache.max,
-      // Note: LRU cache doesn't provide hit rate by default
-      // You'd need to implement custom tracking for this
+      provider: this.providerName,
+      model: this.provider.model,
+      ...this.counters,
+      hitRate: hits + misses === 0 ? 0 : hits / (hits + misses),
+      estimatedCostUsd: (tokensEmbedded / 1_000_000) * this.pricePer1MTokens,
+      size: this.cache ? await this.cache.size(getCachePrefix(this.namespace)) : 0,
+      maxSize: this.cache instanceof MemoryEmbeddingCache ? this.cache.maxSize : undefined,
     }
   }
 
   /**
-   * Clear the cache
+   * Reset hit/miss, batch, retry and cost counters (cached vectors are kept)
+   */
+  resetStats(): void {
+    this.counters = { hits: 0, misses: 0, batches: 0, retries: 0, tokensEmbedded: 0 }
+  }
+
+  /**
+   * Clear cached embeddings for this provider/model
    */
   async clearCache(): Promise<void> {
-    await this.initializeModules()
-    cache.clear()
+    await this.cache?.clear(getCachePrefix(this.namespace))
+    this.queryCache?.clear()
     console.log('[EmbeddingService] Cache cleared')
   }
+
+  /**
+   * Release cache resources (e.g. Redis connections)
+   */
+  async close(): Promise<void> {
+    await this.cache?.close?.()
+  }
 }
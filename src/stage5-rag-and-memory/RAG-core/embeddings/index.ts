@@ -12,7 +12,7 @@ async function main() {
   // Configuration
   const dataDir = path.join(__dirname, '../document-ingestion/data')
   const provider: EmbeddingProviderName = 'openai' // Change to 'cohere' or 'huggingface' as needed
-  const cacheFile = path.join(__dirname, 'cache/embeddings-cache.json')
+  const cacheFile = path.join(__dirname, 'cache/embeddings-cache.jsonl')
 
   console.log('🚀 Starting Embedding Pipeline Demo')
   console.log(`📁 Data directory: ${dataDir}`)
@@ -53,7 +53,7 @@ async function main() {
     const endTime = Date.now()
 
     console.log(`✅ Generated ${embeddings.length} embeddings in ${endTime - startTime}ms`)
-    console.log(`📊 Cache stats:`, embeddingService.getCacheStats())
+    console.log(`📊 Cache stats:`, await embeddingService.getCacheStats())
 
     // Step 6: Display sample results
     console.log('\n📋 Sample Results:')
@@ -2,10 +2,13 @@ import { CohereEmbeddings } from '@langchain/community/embeddings/cohere'
 import type { EmbeddingProvider, EmbeddingServiceOptions } from '../types'
 
 export class CohereProvider implements EmbeddingProvider {
+  readonly model: string
   private client: CohereEmbeddings
 
   constructor(opts: EmbeddingServiceOptions = {}) {
+    this.model = opts.model ?? 'embed-english-v2.0'
     this.client = new CohereEmbeddings({
+      modelName: this.model,
       apiKey: opts.apiKey ?? process.env.COHERE_API_KEY,
     })
   }
@@ -1,2 +1,3 @@
 export { OpenAIProvider } from './openaiEmbeddings'
 export { CohereProvider } from './cohereEmbeddings'
+export { LocalProvider } from './localEmbeddings'
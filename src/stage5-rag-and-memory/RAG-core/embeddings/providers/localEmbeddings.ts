@@ -0,0 +1,75 @@
+import type { EmbeddingProvider, EmbeddingServiceOptions } from '../types'
+import { sha1 } from '../utils/hash'
+
+const DEFAULT_DIMENSIONS = 384
+
+/**
+ * Fully local embedding provider (no network calls, no API keys).
+ *
+ * Uses the "hashing trick": word unigrams/bigrams and character trigrams are hashed
+ * into a fixed number of buckets, weighted by sublinear term frequency, then L2-normalized.
+ * Vectors are deterministic, so the same text always produces the same embedding —
+ * which makes the pipeline reproducible in CI and on air-gapped machines.
+ */
+export class LocalProvider implements EmbeddingProvider {
+  readonly model: string
+  private dimensions: number
+
+  constructor(opts: EmbeddingServiceOptions = {}) {
+    this.dimensions = opts.dimensions ?? DEFAULT_DIMENSIONS
+    if (!Number.isInteger(this.dimensions) || this.dimensions <= 0) {
+      throw new Error(`Invalid embedding dimensions: ${this.dimensions}`)
+    }
+    // Vector size changes every embedding, so it is part of the model identity
+    this.model = `local-hashing-${this.dimensions}`
+  }
+
+  /**
+   * Embed multiple texts locally
+   * @param texts Array of text strings to embed
+   * @returns Promise<number[][]> Array of embedding vectors
+   */
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedText(text))
+  }
+
+  private embedText(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0)
+    const counts = new Map<string, number>()
+
+    for (const feature of this.extractFeatures(text)) {
+      counts.set(feature, (counts.get(feature) ?? 0) + 1)
+    }
+
+    counts.forEach((count, feature) => {
+      const digest = sha1(feature)
+      const bucket = parseInt(digest.slice(0, 8), 16) % this.dimensions
+      // Signed hashing keeps collisions from always adding up in the same direction
+      const sign = parseInt(digest.slice(8, 10), 16) % 2 === 0 ? 1 : -1
+      vector[bucket] += sign * (1 + Math.log(count))
+    })
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0))
+    return norm === 0 ? vector : vector.map((v) => v / norm)
+  }
+
+  private extractFeatures(text: string): string[] {
+    const tokens = text
+      .toLowerCase()
+      .normalize('NFKC')
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(Boolean)
+
+    const features: string[] = []
+    tokens.forEach((token, i) => {
+      features.push(`w:${token}`)
+      if (i > 0) features.push(`b:${tokens[i - 1]} ${token}`)
+
+      const padded = `#${token}#`
+      for (let j = 0; j + 3 <= padded.length; j++) {
+        features.push(`c:${padded.slice(j, j + 3)}`)
+      }
+    })
+    return features
+  }
+}
@@ -3,12 +3,16 @@ import { OpenAIEmbeddings } from '@langchain/openai'
 import type { EmbeddingProvider, EmbeddingServiceOptions } from '../types'
 
 export class OpenAIProvider implements EmbeddingProvider {
+  readonly model: string
   private client: OpenAIEmbeddings
 
   constructor(opts: EmbeddingServiceOptions = {}) {
+    this.model = opts.model ?? 'text-embedding-ada-002'
     this.client = new OpenAIEmbeddings({
-      model: opts.model ?? 'text-embedding-ada-002',
-      openAIApiKey: process.env.OPENAI_API_KEY,
+      model: this.model,
+      // Only text-embedding-3 and later accept a custom output size
+      dimensions: this.model.startsWith('text-embedding-3') ? opts.dimensions : undefined,
+      openAIApiKey: opts.apiKey ?? process.env.OPENAI_API_KEY,
     })
   }
 
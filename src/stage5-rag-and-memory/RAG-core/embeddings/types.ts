@@ -10,6 +10,7 @@ export interface EmbeddingRecord {
 export type EmbeddingProviderName = 'openai' | 'cohere' | 'huggingface'
 
 export interface EmbeddingProvider {
+  readonly model: string // resolved model name, part of the cache key
   embed(texts: string[]): Promise<number[][]>
 }
 
@@ -17,6 +18,36 @@ export interface EmbeddingServiceOptions {
   batchSize?: number
   model?: string
   apiKey?: string
+  dimensions?: number // expected vector size; also requested from OpenAI text-embedding-3 and the local provider
+}
+
+/**
+ * Storage backend for computed embeddings.
+ * Keys are already namespaced by the caller (provider + model), so one backend
+ * can safely be shared between several EmbeddingService instances.
+ */
+export interface EmbeddingCache {
+  getMany(keys: string[]): Promise<(number[] | undefined)[]>
+  setMany(entries: [string, number[]][]): Promise<void>
+  delete(keys: string[]): Promise<void>
+  clear(prefix?: string): Promise<void> // only removes keys starting with prefix, if given
+  size(prefix?: string): Promise<number>
+  close?(): Promise<void>
+}
+
+/**
+ * Per-instance counters reported by EmbeddingService.getCacheStats()
+ */
+export interface EmbeddingStats {
+  provider: EmbeddingProviderName
+  model: string
+  hits: number
+  misses: number
+  hitRate: number // hits / (hits + misses), 0 when nothing was looked up
+  batches: number // provider calls that succeeded
+  retries: number // failed attempts that were retried
+  tokensEmbedded: number // estimated, see utils/cost.ts
+  estimatedCostUsd: number
 }
 
 export interface DocumentWithId {
@@ -0,0 +1,27 @@
+/**
+ * Approximate list prices in USD per 1M input tokens.
+ * Only used for reporting — check the provider's pricing page before budgeting.
+ */
+export const EMBEDDING_PRICES_PER_1M_TOKENS: Record<string, number> = {
+  'openai:text-embedding-3-small': 0.02,
+  'openai:text-embedding-3-large': 0.13,
+  'openai:text-embedding-ada-002': 0.1,
+  'cohere:embed-english-v2.0': 0.1,
+  'cohere:embed-english-v3.0': 0.1,
+  'cohere:embed-multilingual-v3.0': 0.1,
+}
+
+/**
+ * Rough token count (~4 characters per token for English text).
+ * Good enough for cost estimates without pulling in a tokenizer.
+ */
+export const estimateTokens = (text: string): number => {
+  return Math.ceil(text.length / 4)
+}
+
+/**
+ * Price per 1M tokens for a "<provider>:<model>" namespace (0 for local or unknown models)
+ */
+export const getPricePer1MTokens = (namespace: string): number => {
+  return EMBEDDING_PRICES_PER_1M_TOKENS[namespace] ?? 0
+}
@@ -0,0 +1,15 @@
+/**
+ * Ensure every vector has the same length (and the expected one, if given).
+ * Mixing dimensions in one index silently breaks similarity search, so fail loudly instead.
+ */
+export const assertDimensions = (vectors: number[][], expected?: number): number | undefined => {
+  const dimensions = expected ?? vectors[0]?.length
+
+  vectors.forEach((vector, i) => {
+    if (vector.length !== dimensions) {
+      throw new Error(`Embedding dimension mismatch at index ${i}: expected ${dimensions}, got ${vector.length}`)
+    }
+  })
+
+  return dimensions
+}
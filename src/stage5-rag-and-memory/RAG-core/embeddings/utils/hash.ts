@@ -9,8 +9,24 @@ export const sha1 = (text: string): string => {
 }
 
 /**
- * Generate a cache key for embedding storage
+ * Namespace for cached vectors, so services using different providers/models
+ * never serve each other's embeddings from a shared cache
  */
-export const getCacheKey = (id: string): string => {
-  return `emb:${id}`
+export const getCacheNamespace = (provider: string, model?: string): string => {
+  return `${provider}:${model ?? 'default'}`
+}
+
+/**
+ * Common prefix of every cache key in a namespace (used to scope clear/size)
+ */
+export const getCachePrefix = (namespace: string): string => {
+  return `emb:${namespace}:`
+}
+
+/**
+ * Generate a cache key for embedding storage.
+ * Keyed by content hash rather than chunk id, so an edited chunk never reuses its old vector.
+ */
+export const getCacheKey = (namespace: string, text: string): string => {
+  return `${getCachePrefix(namespace)}${sha1(text)}`
 }
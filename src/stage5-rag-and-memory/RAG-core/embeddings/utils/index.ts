@@ -1 +1,3 @@
 export * from './hash'
+export * from './dimensions'
+export * from './cost'
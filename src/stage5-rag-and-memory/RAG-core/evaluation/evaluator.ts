@@ -0,0 +1,95 @@
+import * as fs from 'fs/promises'
+
+import { Retriever } from '../retriever/retriever'
+import type { VectorQueryResult } from '../vector-store/types'
+import { VectorStoreManager } from '../vector-store/vectorStoreManager'
+import { mean, ndcgAtK, percentile, recallAtK, reciprocalRank, relevanceGains } from './metrics'
+import type { EvalConfiguration, EvalExample, EvalOptions, EvalResult, QuestionResult, SearchFn } from './types'
+
+/**
+ * Read a JSON array of `{ question, relevantSources }` examples
+ */
+export const loadDataset = async (filePath: string): Promise<EvalExample[]> => {
+  const data = JSON.parse(await fs.readFile(filePath, 'utf8'))
+  if (!Array.isArray(data)) throw new Error(`Evaluation dataset must be a JSON array: ${filePath}`)
+
+  data.forEach((example, i) => {
+    const { question, relevantSources } = example ?? {}
+    if (typeof question !== 'string' || !question.trim()) {
+      throw new Error(`Example #${i} in ${filePath} has no question`)
+    }
+    if (!Array.isArray(relevantSources) || relevantSources.length === 0) {
+      throw new Error(`Example #${i} in ${filePath} needs a non-empty relevantSources array`)
+    }
+  })
+  return data
+}
+
+const toSearchFn = ({ target, retrieve }: EvalConfiguration): SearchFn => {
+  if (target instanceof VectorStoreManager) return (question, k, filter) => target.search(question, { k, filter })
+  if (target instanceof Retriever) {
+    return (question, k, filter) => target.retrieve(question, { ...retrieve, k, filter: filter ?? retrieve?.filter })
+  }
+  return target
+}
+
+const sourcesOf = (results: VectorQueryResult[]) => results.map((r) => String(r.metadata?.source ?? 'unknown'))
+
+/**
+ * Run every example through one configuration and aggregate recall@k, MRR, nDCG@k and latency
+ */
+export const evaluateRetrieval = async (
+  dataset: EvalExample[],
+  config: EvalConfiguration,
+  options: EvalOptions = {},
+): Promise<EvalResult> => {
+  const { k = 5, warmup = true } = options
+  const search = toSearchFn(config)
+  if (warmup && dataset.length > 0) await search(dataset[0].question, k, dataset[0].filter)
+
+  const perQuestion: QuestionResult[] = []
+  for (const { question, relevantSources, filter } of dataset) {
+    const started = performance.now()
+    const results = await search(question, k, filter)
+    const latencyMs = performance.now() - started
+
+    const retrievedSources = sourcesOf(results.slice(0, k))
+    const gains = relevanceGains(retrievedSources, relevantSources)
+    perQuestion.push({
+      question,
+      retrievedSources,
+      recall: recallAtK(gains, relevantSources.length, k),
+      reciprocalRank: reciprocalRank(gains, k),
+      ndcg: ndcgAtK(gains, relevantSources.length, k),
+      latencyMs,
+    })
+  }
+
+  const latencies = perQuestion.map((q) => q.latencyMs)
+  return {
+    name: config.name,
+    k,
+    questions: perQuestion.length,
+    recall: mean(perQuestion.map((q) => q.recall)),
+    mrr: mean(perQuestion.map((q) => q.reciprocalRank)),
+    ndcg: mean(perQuestion.map((q) => q.ndcg)),
+    latency: { meanMs: mean(latencies), p50Ms: percentile(latencies, 50), p95Ms: percentile(latencies, 95) },
+    perQuestion,
+  }
+}
+
+/**
+ * Evaluate several configurations on the same dataset, one after another so latencies don't interfere
+ */
+export const compareConfigurations = async (
+  dataset: EvalExample[],
+  configs: EvalConfiguration[],
+  options: EvalOptions = {},
+): Promise<EvalResult[]> => {
+  const results: EvalResult[] = []
+  for (const config of configs) {
+    console.log(`[Evaluation] Running "${config.name}" on ${dataset.length} questions`)
+    results.push(await evaluateRetrieval(dataset, config, options))
+  }
+  return results
+}
@@ -0,0 +1,42 @@
+import path from 'path'
+import { loadLocalDocuments } from '../document-ingestion/fileLoader'
+import { chunkDocuments } from '../document-ingestion/chunker'
+import { VectorStoreManager } from '../vector-store/vectorStoreManager'
+import { Retriever } from '../retriever/retriever'
+import { compareConfigurations, loadDataset } from './evaluator'
+import { formatComparisonTable, writeReport } from './report'
+import type { EvalConfiguration } from './types'
+
+/**
+ * Demo: compare chunk sizes and retrieval modes on a small labeled dataset.
+ * Uses the in-memory store and local embeddings, so it runs without API keys.
+ */
+async function main() {
+  const dataDir = path.join(__dirname, '../document-ingestion/data')
+  const dataset = await loadDataset(path.join(__dirname, 'data', 'dataset.json'))
+  const docs = await loadLocalDocuments(dataDir)
+
+  const configs: EvalConfiguration[] = []
+  for (const [chunkSize, chunkOverlap] of [
+    [200, 50],
+    [500, 100],
+    [1000, 200],
+  ]) {
+    const chunks = await chunkDocuments(docs, chunkSize, chunkOverlap)
+    const store = new VectorStoreManager('memory')
+    await store.init(chunks)
+
+    configs.push({ name: `chunks ${chunkSize}/${chunkOverlap} similarity`, target: store })
+    configs.push({
+      name: `chunks ${chunkSize}/${chunkOverlap} hybrid`,
+      target: new Retriever(store, { documents: chunks }),
+      retrieve: { mode: 'hybrid' },
+    })
+  }
+
+  const results = await compareConfigurations(dataset, configs, { k: 3 })
+  console.log(`\n${formatComparisonTable(results)}\n`)
+  await writeReport(results, path.join(__dirname, '.cache', 'retrieval-report.md'))
+}
+
+main().catch(console.error)
@@ -0,0 +1,50 @@
+/**
+ * Retrieval metrics over binary relevance. Relevance is judged per source document, not per
+ * chunk: a source counts once, at the rank of its first chunk, so five chunks of the same
+ * relevant file can't inflate recall or push nDCG above 1.
+ */
+
+export const matchesSource = (retrieved: string, relevant: string): boolean => {
+  const a = retrieved.replace(/\\/g, '/')
+  const b = relevant.replace(/\\/g, '/')
+  return a === b || a.endsWith(`/${b.replace(/^\.?\//, '')}`)
+}
+
+/**
+ * 1 at each rank where a not-yet-seen relevant source appears, 0 elsewhere
+ */
+export const relevanceGains = (retrievedSources: string[], relevantSources: string[]): number[] => {
+  const found = new Set<string>()
+  return retrievedSources.map((source) => {
+    const match = relevantSources.find((relevant) => !found.has(relevant) && matchesSource(source, relevant))
+    if (!match) return 0
+    found.add(match)
+    return 1
+  })
+}
+
+export const recallAtK = (gains: number[], relevantCount: number, k: number): number =>
+  relevantCount === 0 ? 0 : gains.slice(0, k).reduce((sum, g) => sum + g, 0) / relevantCount
+
+export const reciprocalRank = (gains: number[], k: number): number => {
+  const rank = gains.slice(0, k).indexOf(1)
+  return rank === -1 ? 0 : 1 / (rank + 1)
+}
+
+export const ndcgAtK = (gains: number[], relevantCount: number, k: number): number => {
+  const dcg = (values: number[]) => values.reduce((sum, g, i) => sum + g / Math.log2(i + 2), 0)
+  const ideal = dcg(new Array(Math.min(relevantCount, k)).fill(1))
+  return ideal === 0 ? 0 : dcg(gains.slice(0, k)) / ideal
+}
+
+export const mean = (values: number[]): number =>
+  values.length === 0 ? 0 : values.reduce((sum, v) => sum + v, 0) / values.length
+
+/**
+ * Nearest-rank percentile, p in 0..100
+ */
+export const percentile = (values: number[], p: number): number => {
+  if (values.length === 0) return 0
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1))]
+}
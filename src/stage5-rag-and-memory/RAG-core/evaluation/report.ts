@@ -0,0 +1,54 @@
+import * as fs from 'fs/promises'
+import * as path from 'path'
+
+import type { EvalResult } from './types'
+
+const formatRow = (cells: string[]) => `| ${cells.join(' | ')} |`
+
+/**
+ * Markdown table with one row per configuration; the best value of each quality metric is bolded
+ */
+export const formatComparisonTable = (results: EvalResult[]): string => {
+  const best = (pick: (r: EvalResult) => number) => Math.max(...results.map(pick))
+  const cell = (value: number, top: number) => (value === top ? `**${value.toFixed(3)}**` : value.toFixed(3))
+  const [bestRecall, bestMrr, bestNdcg] = [best((r) => r.recall), best((r) => r.mrr), best((r) => r.ndcg)]
+
+  const header = ['Configuration', 'Recall@k', 'MRR', 'nDCG@k', 'Latency mean (ms)', 'p50 (ms)', 'p95 (ms)']
+  const rows = results.map((r) =>
+    formatRow([
+      `${r.name} (k=${r.k})`,
+      cell(r.recall, bestRecall),
+      cell(r.mrr, bestMrr),
+      cell(r.ndcg, bestNdcg),
+      r.latency.meanMs.toFixed(1),
+      r.latency.p50Ms.toFixed(1),
+      r.latency.p95Ms.toFixed(1),
+    ]),
+  )
+  return [formatRow(header), formatRow(header.map(() => '---')), ...rows].join('\n')
+}
+
+/**
+ * Questions where a configuration missed at least one relevant source, for spotting what to fix
+ */
+const formatMisses = (results: EvalResult[]): string =>
+  results
+    .map((r) => {
+      const misses = r.perQuestion.filter((q) => q.recall < 1)
+      const lines = misses.map((q) => `- ${q.question} → got ${q.retrievedSources.join(', ') || 'nothing'}`)
+      return `### ${r.name}\n\n${lines.length ? lines.join('\n') : 'No misses.'}`
+    })
+    .join('\n\n')
+
+/**
+ * Write the comparison as Markdown, or as raw JSON (with per-question details) when the path ends in .json
+ */
+export const writeReport = async (results: EvalResult[], filePath: string) => {
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+  const content =
+    path.extname(filePath) === '.json'
+      ? JSON.stringify(results, null, 2)
+      : `# Retrieval evaluation\n\n${formatComparisonTable(results)}\n\n## Misses\n\n${formatMisses(results)}\n`
+  await fs.writeFile(filePath, content)
+  console.log(`[Evaluation] Report written to ${filePath}`)
+}
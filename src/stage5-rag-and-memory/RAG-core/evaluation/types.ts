@@ -0,0 +1,51 @@
+import type { Retriever } from '../retriever/retriever'
+import type { RetrieveOptions } from '../retriever/types'
+import type { MetadataFilter, VectorQueryResult } from '../vector-store/types'
+import type { VectorStoreManager } from '../vector-store/vectorStoreManager'
+
+/**
+ * One labeled question. `relevantSources` match a result's `metadata.source` exactly or as a
+ * path suffix, so `notes.md` or `docs/notes.md` both match `/abs/path/docs/notes.md`.
+ */
+export interface EvalExample {
+  question: string
+  relevantSources: string[]
+  filter?: MetadataFilter
+}
+
+export type SearchFn = (question: string, k: number, filter?: MetadataFilter) => Promise<VectorQueryResult[]>
+
+/**
+ * A setup to measure, e.g. "chunks 500/100 + hybrid". The target is queried as-is,
+ * so build one store/retriever per chunking or embedding variant.
+ */
+export interface EvalConfiguration {
+  name: string
+  target: VectorStoreManager | Retriever | SearchFn
+  retrieve?: RetrieveOptions // extra options when the target is a Retriever (mode, fetchK...)
+}
+
+export interface EvalOptions {
+  k?: number // cutoff for every metric (default 5)
+  warmup?: boolean // run one untimed query first so model loading doesn't skew latency (default true)
+}
+
+export interface QuestionResult {
+  question: string
+  retrievedSources: string[]
+  recall: number
+  reciprocalRank: number
+  ndcg: number
+  latencyMs: number
+}
+
+export interface EvalResult {
+  name: string
+  k: number
+  questions: number
+  recall: number // mean recall@k over questions
+  mrr: number // mean reciprocal rank of the first relevant result (0 when none in the top k)
+  ndcg: number // mean nDCG@k with binary relevance
+  latency: { meanMs: number; p50Ms: number; p95Ms: number }
+  perQuestion: QuestionResult[]
+}
@@ -0,0 +1,36 @@
+import path from 'path'
+
+import type { VectorQueryResult } from '../vector-store/types'
+
+/**
+ * Citation tag for a chunk: `source:chunk`, e.g. `sample.txt:3`, where chunk is the 1-based position
+ * in the context. `metadata.chunkIndex` is only unique per parent document (PDF page, CSV row...),
+ * so it can't tell two chunks of the same file apart.
+ */
+export const toSourceTag = (chunk: VectorQueryResult, position: number): string => {
+  const source = chunk.metadata?.source ? path.basename(String(chunk.metadata.source)) : 'unknown'
+  return `${source}:${position + 1}`
+}
+
+/**
+ * Render chunks as tagged context blocks for the prompt
+ */
+export const formatContext = (chunks: VectorQueryResult[], maxChunkChars: number): string =>
+  chunks.map((c, i) => `[${toSourceTag(c, i)}]\n${c.text.slice(0, maxChunkChars)}`).join('\n\n')
+
+/**
+ * Resolve the `[source:chunk]` tags used in an answer back to the chunks they point at.
+ * Tolerates grouped tags like `[a.txt:1, b.txt:2]`; unknown tags are ignored.
+ */
+export const extractCitations = (answer: string, chunks: VectorQueryResult[]): VectorQueryResult[] => {
+  const byTag = new Map(chunks.map((c, i) => [toSourceTag(c, i), c]))
+  const cited = new Set<VectorQueryResult>()
+
+  for (const [, inner] of answer.matchAll(/\[([^[\]]+)\]/g)) {
+    inner
+      .split(/[,;]/)
+      .map((tag) => byTag.get(tag.trim().replace(/^source:\s*/, '')))
+      .forEach((chunk) => chunk && cited.add(chunk))
+  }
+  return [...cited]
+}
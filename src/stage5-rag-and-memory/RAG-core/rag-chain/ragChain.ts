@@ -0,0 +1,58 @@
+import { ChatPromptTemplate } from '@langchain/core/prompts'
+import { StringOutputParser } from '@langchain/core/output_parsers'
+import { RunnableLambda } from '@langchain/core/runnables'
+import type { Runnable, RunnableConfig } from '@langchain/core/runnables'
+
+import { extractCitations, formatContext } from './citations'
+import type { RagAnswer, RagChainOptions, RagInput } from './types'
+
+const DEFAULT_MIN_CONFIDENCE = 0.2
+const DEFAULT_MAX_CHUNK_CHARS = 1200
+const DEFAULT_REFUSAL = "I don't know based on the provided documents."
+
+const prompt = ChatPromptTemplate.fromMessages([
+  [
+    'system',
+    `You answer questions using ONLY the context below. Each context block starts with its tag, e.g. [handbook.md:2].
+End every sentence of your answer with the tag(s) of the blocks that support it, e.g. "Refunds take 5 days [policy.txt:1]."
+Use one tag per bracket and copy tags exactly. If the context does not contain the answer, reply exactly: "{refusal}"
+
+Context:
+{context}`,
+  ],
+  ['human', '{question}'],
+])
+
+/**
+ * Retrieval-augmented QA chain: retrieve → refuse if confidence is low → stuff tagged context → answer with citations.
+ *
+ * The result is a Runnable, so it composes with other LCEL pieces. `invoke()` returns `{ answer, citations }`;
+ * for tokens as they arrive, use `streamEvents()` and read the `on_chat_model_stream` events.
+ * Confidence is the best chunk score, which is cosine similarity (or reranker relevance) on a 0..1 scale.
+ */
+export const createRagChain = ({
+  retriever,
+  model,
+  retrieve = {},
+  minConfidence = DEFAULT_MIN_CONFIDENCE,
+  maxChunkChars = DEFAULT_MAX_CHUNK_CHARS,
+  refusal = DEFAULT_REFUSAL,
+}: RagChainOptions): Runnable<RagInput, RagAnswer> => {
+  const answerChain = prompt.pipe(model).pipe(new StringOutputParser())
+
+  const run = async (input: RagInput, config?: RunnableConfig): Promise<RagAnswer> => {
+    const { question, retrieve: overrides } = typeof input === 'string' ? { question: input } : input
+    const chunks = await retriever.retrieve(question, { ...retrieve, ...overrides })
+
+    const confidence = Math.max(0, ...chunks.map((c) => c.score))
+    if (chunks.length === 0 || confidence < minConfidence) return { answer: refusal, citations: [] }
+
+    const answer = await answerChain.invoke(
+      { question, refusal, context: formatContext(chunks, maxChunkChars) },
+      config,
+    )
+    return { answer, citations: extractCitations(answer, chunks) }
+  }
+
+  return RunnableLambda.from(run).withConfig({ runName: 'RagChain' })
+}
@@ -0,0 +1,27 @@
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models'
+
+import type { Retriever } from '../retriever/retriever'
+import type { RetrieveOptions } from '../retriever/types'
+import type { VectorQueryResult } from '../vector-store/types'
+
+/**
+ * A question, optionally with per-call retrieval overrides (k, mode, filter...)
+ */
+export type RagInput = string | { question: string; retrieve?: RetrieveOptions }
+
+/**
+ * `citations` are the retrieved chunks the answer actually cites, in order of first citation
+ */
+export interface RagAnswer {
+  answer: string
+  citations: VectorQueryResult[]
+}
+
+export interface RagChainOptions {
+  retriever: Retriever
+  model: BaseChatModel
+  retrieve?: RetrieveOptions // default retrieval options, merged with the retriever's own defaults
+  minConfidence?: number // refuse when the best chunk scores below this (0..1, default 0.2)
+  maxChunkChars?: number // per-chunk cap on the context sent to the model
+  refusal?: string // answer returned when retrieval confidence is too low
+}
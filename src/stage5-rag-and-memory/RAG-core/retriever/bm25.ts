@@ -0,0 +1,77 @@
+import { Document } from '@langchain/core/documents'
+
+const STOPWORDS = new Set(
+  'a an and are as at be but by for from has have how i if in is it of on or that the this to was what when where which who why will with you your'.split(
+    ' ',
+  ),
+)
+
+export const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .normalize('NFKC')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((t) => t && !STOPWORDS.has(t))
+
+/**
+ * Minimal in-process BM25 (Okapi) index for keyword retrieval.
+ * Fine for a few thousand chunks; use Elasticsearch/OpenSearch for large corpora.
+ */
+export class BM25Index {
+  private docs: Document[] = []
+  private termFreqs: Map<string, number>[] = []
+  private docFreqs = new Map<string, number>()
+  private docLengths: number[] = []
+  private avgDocLength = 0
+
+  constructor(
+    private k1 = 1.2,
+    private b = 0.75,
+  ) {}
+
+  get size() {
+    return this.docs.length
+  }
+
+  /**
+   * Replace the indexed corpus
+   */
+  index(docs: Document[]) {
+    this.docs = docs
+    this.docFreqs.clear()
+    this.termFreqs = docs.map((doc) => {
+      const tf = new Map<string, number>()
+      tokenize(doc.pageContent).forEach((t) => tf.set(t, (tf.get(t) ?? 0) + 1))
+      tf.forEach((_, term) => this.docFreqs.set(term, (this.docFreqs.get(term) ?? 0) + 1))
+      return tf
+    })
+    this.docLengths = this.termFreqs.map((tf) => [...tf.values()].reduce((a, b) => a + b, 0))
+    this.avgDocLength = this.docLengths.reduce((a, b) => a + b, 0) / Math.max(1, docs.length)
+  }
+
+  /**
+   * Score every document and return the best k with a positive score
+   */
+  search(query: string, k: number, accept: (doc: Document) => boolean = () => true) {
+    const terms = [...new Set(tokenize(query))]
+    const n = this.docs.length
+
+    const scored = this.docs.map((doc, i) => {
+      const tf = this.termFreqs[i]
+      const score = terms.reduce((sum, term) => {
+        const freq = tf.get(term)
+        if (!freq) return sum
+        const df = this.docFreqs.get(term) ?? 0
+        const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5))
+        const norm = freq + this.k1 * (1 - this.b + (this.b * this.docLengths[i]) / this.avgDocLength)
+        return sum + idf * ((freq * (this.k1 + 1)) / norm)
+      }, 0)
+      return { doc, score }
+    })
+
+    return scored
+      .filter((s) => s.score > 0 && accept(s.doc))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k)
+  }
+}
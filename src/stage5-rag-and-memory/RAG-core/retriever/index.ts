@@ -0,0 +1,39 @@
+import path from 'path'
+import { loadLocalDocuments } from '../document-ingestion/fileLoader'
+import { chunkDocuments } from '../document-ingestion/chunker'
+import { VectorStoreManager } from '../vector-store/vectorStoreManager'
+import { Retriever } from './retriever'
+import { LocalCrossScorer } from './rerankers'
+import { RetrievalMode } from './types'
+
+/**
+ * Demo: compare retrieval modes over the sample data.
+ * Uses the in-memory store and local embeddings, so it runs without API keys.
+ */
+async function main() {
+  const dataDir = path.join(__dirname, '../document-ingestion/data')
+  const query = 'How do I get a refund for a damaged product?'
+
+  const docs = await loadLocalDocuments(dataDir)
+  const chunks = await chunkDocuments(docs, 500, 100)
+
+  const storeManager = new VectorStoreManager('memory')
+  await storeManager.init(chunks)
+
+  const retriever = new Retriever(storeManager, { documents: chunks, k: 3 })
+  const modes: RetrievalMode[] = ['similarity', 'mmr', 'hybrid']
+
+  for (const mode of modes) {
+    const results = await retriever.retrieve(query, { mode })
+    console.log(`\n🔍 ${mode}`)
+    results.forEach((r, i) => console.log(`#${i + 1} score=${r.score.toFixed(3)} ${r.metadata?.source}`, r.scores))
+  }
+
+  // Swap in `new CohereReranker()` for the hosted rerank API
+  retriever.setReranker(new LocalCrossScorer())
+  const reranked = await retriever.retrieve(query, { mode: 'hybrid' })
+  console.log('\n🔁 hybrid + rerank')
+  reranked.forEach((r, i) => console.log(`#${i + 1} score=${r.score.toFixed(3)} ${r.metadata?.source}`))
+}
+
+main().catch(console.error)
@@ -0,0 +1,51 @@
+/**
+ * Reciprocal rank fusion: merge several ranked lists without comparing their (incompatible) scores.
+ * score(d) = Σ 1 / (rrfK + rank_i(d))
+ */
+export const reciprocalRankFusion = (rankings: string[][], rrfK = 60): Map<string, number> => {
+  const fused = new Map<string, number>()
+  rankings.forEach((ranking) =>
+    ranking.forEach((key, rank) => fused.set(key, (fused.get(key) ?? 0) + 1 / (rrfK + rank + 1))),
+  )
+  return fused
+}
+
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB)
+}
+
+/**
+ * Maximal marginal relevance: greedily pick the candidate that is relevant to the query
+ * but least similar to what was already picked.
+ * @param relevance Query relevance per candidate (0..1)
+ * @param vectors Candidate embeddings, used only to compare candidates with each other
+ * @returns Indices of the selected candidates, in selection order
+ */
+export const maximalMarginalRelevance = (relevance: number[], vectors: number[][], k: number, lambda = 0.5) => {
+  const selected: number[] = []
+  const remaining = new Set(relevance.map((_, i) => i))
+
+  while (selected.length < k && remaining.size > 0) {
+    let best = -1
+    let bestScore = -Infinity
+    for (const i of remaining) {
+      const redundancy = selected.length
+        ? Math.max(...selected.map((j) => cosineSimilarity(vectors[i], vectors[j])))
+        : 0
+      const score = lambda * relevance[i] - (1 - lambda) * redundancy
+      if (score > bestScore) [best, bestScore] = [i, score]
+    }
+    selected.push(best)
+    remaining.delete(best)
+  }
+
+  return selected
+}
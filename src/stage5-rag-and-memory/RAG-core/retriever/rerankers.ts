@@ -0,0 +1,49 @@
+import 'dotenv/config'
+import { CohereClientV2 } from 'cohere-ai'
+
+import type { Reranker, RetrievedChunk } from './types'
+import { tokenize } from './bm25'
+
+/**
+ * Reranks with Cohere's hosted rerank API (relevance scores are already 0..1)
+ */
+export class CohereReranker implements Reranker {
+  private client: CohereClientV2
+  private model: string
+
+  constructor(opts: { apiKey?: string; model?: string } = {}) {
+    this.client = new CohereClientV2({ token: opts.apiKey ?? process.env.COHERE_API_KEY })
+    this.model = opts.model ?? 'rerank-v3.5'
+  }
+
+  async rerank(query: string, candidates: RetrievedChunk[]): Promise<number[]> {
+    if (candidates.length === 0) return []
+    const response = await this.client.rerank({
+      model: this.model,
+      query,
+      documents: candidates.map((c) => c.text),
+    })
+    const scores = new Array<number>(candidates.length).fill(0)
+    response.results.forEach((r) => (scores[r.index] = r.relevanceScore))
+    return scores
+  }
+}
+
+/**
+ * Local, dependency-free cross-scorer. Scores each (query, chunk) pair with `scoreFn`;
+ * the default is query-term coverage, which favours chunks that mention every query term.
+ */
+export class LocalCrossScorer implements Reranker {
+  constructor(private scoreFn: (query: string, text: string) => number = termCoverage) {}
+
+  async rerank(query: string, candidates: RetrievedChunk[]): Promise<number[]> {
+    return candidates.map((c) => this.scoreFn(query, c.text))
+  }
+}
+
+const termCoverage = (query: string, text: string): number => {
+  const queryTerms = new Set(tokenize(query))
+  if (queryTerms.size === 0) return 0
+  const textTerms = new Set(tokenize(text))
+  return [...queryTerms].filter((t) => textTerms.has(t)).length / queryTerms.size
+}
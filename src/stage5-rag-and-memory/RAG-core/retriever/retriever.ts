@@ -0,0 +1,131 @@
+import { Document } from '@langchain/core/documents'
+
+import type { VectorStoreManager } from '../vector-store/vectorStoreManager'
+import { matchesFilter } from '../vector-store/filter'
+import { BM25Index } from './bm25'
+import { maximalMarginalRelevance, reciprocalRankFusion } from './ranking'
+import type { Reranker, RetrievedChunk, RetrieveOptions, RetrieverOptions } from './types'
+
+const DEFAULT_K = 4
+const DEFAULT_FETCH_MULTIPLIER = 4
+const DEFAULT_MMR_LAMBDA = 0.5
+const DEFAULT_RRF_K = 60
+
+/**
+ * Retriever on top of VectorStoreManager.
+ *
+ * Modes:
+ * - `similarity`: plain top-k vector search
+ * - `mmr`: fetch `fetchK` candidates, then pick k that are relevant but not redundant
+ * - `hybrid`: fuse vector and BM25 keyword rankings with reciprocal rank fusion
+ *
+ * Any mode can be followed by a reranker (Cohere rerank API, local cross-scorer, ...).
+ * Chunks are matched across rankings by their text, since keyword and vector hits
+ * don't necessarily share ids.
+ */
+export class Retriever {
+  private store: VectorStoreManager
+  private defaults: RetrieveOptions
+  private reranker?: Reranker
+  private bm25 = new BM25Index()
+
+  constructor(store: VectorStoreManager, opts: RetrieverOptions = {}) {
+    const { documents, reranker, ...defaults } = opts
+    this.store = store
+    this.defaults = defaults
+    this.reranker = reranker
+    if (documents) this.indexDocuments(documents)
+  }
+
+  /**
+   * (Re)build the keyword index used by hybrid mode, typically with the same chunks sent to the vector store
+   */
+  indexDocuments(docs: Document[]) {
+    this.bm25.index(docs)
+  }
+
+  setReranker(reranker?: Reranker) {
+    this.reranker = reranker
+  }
+
+  async retrieve(query: string, overrides: RetrieveOptions = {}): Promise<RetrievedChunk[]> {
+    const opts = { ...this.defaults, ...overrides }
+    const mode = opts.mode ?? 'similarity'
+    const k = opts.k ?? DEFAULT_K
+    const needsCandidatePool = mode !== 'similarity' || !!this.reranker
+    const fetchK = needsCandidatePool ? (opts.fetchK ?? k * DEFAULT_FETCH_MULTIPLIER) : k
+
+    const vectorHits = await this.store.search(query, { k: fetchK, filter: opts.filter })
+    let candidates: RetrievedChunk[] = vectorHits.map((r) => ({ ...r, scores: { vector: r.score } }))
+
+    if (mode === 'hybrid') candidates = this.fuseWithKeywords(query, candidates, fetchK, opts)
+    if (mode === 'mmr') candidates = await this.diversify(candidates, k, opts.mmrLambda ?? DEFAULT_MMR_LAMBDA)
+    if (this.reranker) candidates = await this.rerank(query, candidates)
+
+    const { minScore } = opts
+    return candidates.filter((c) => minScore === undefined || !hasComparableScore(c) || c.score >= minScore).slice(0, k)
+  }
+
+  private fuseWithKeywords(
+    query: string,
+    vectorCandidates: RetrievedChunk[],
+    fetchK: number,
+    opts: RetrieveOptions,
+  ): RetrievedChunk[] {
+    if (this.bm25.size === 0) {
+      throw new Error('Hybrid retrieval needs a keyword corpus: pass `documents` or call indexDocuments()')
+    }
+
+    const keywordHits = this.bm25.search(query, fetchK, (doc) => matchesFilter(doc.metadata, opts.filter))
+    const byText = new Map(vectorCandidates.map((c) => [c.text, c]))
+
+    keywordHits.forEach(({ doc, score }) => {
+      const existing = byText.get(doc.pageContent)
+      if (existing) {
+        existing.scores.keyword = score
+        return
+      }
+      byText.set(doc.pageContent, {
+        id: doc.id ?? doc.metadata?.id ?? '',
+        score: 0,
+        metadata: doc.metadata ?? {},
+        text: doc.pageContent,
+        scores: { keyword: score },
+      })
+    })
+
+    const fused = reciprocalRankFusion(
+      [vectorCandidates.map((c) => c.text), keywordHits.map((h) => h.doc.pageContent)],
+      opts.rrfK ?? DEFAULT_RRF_K,
+    )
+
+    return [...byText.values()]
+      .map((c) => ({ ...c, scores: { ...c.scores, fused: fused.get(c.text) ?? 0 } }))
+      .sort((a, b) => b.scores.fused! - a.scores.fused!)
+  }
+
+  private async diversify(candidates: RetrievedChunk[], k: number, lambda: number): Promise<RetrievedChunk[]> {
+    if (candidates.length <= 1) return candidates
+    // Embedded by the store itself, so candidates are compared in the same space their relevance came from
+    const vectors = await this.store.embed(candidates.map((c) => c.text))
+    const selected = maximalMarginalRelevance(
+      candidates.map((c) => c.score),
+      vectors,
+      k,
+      lambda,
+    )
+    return selected.map((i) => candidates[i])
+  }
+
+  private async rerank(query: string, candidates: RetrievedChunk[]): Promise<RetrievedChunk[]> {
+    const scores = await this.reranker!.rerank(query, candidates)
+    return candidates
+      .map((c, i) => ({ ...c, score: scores[i], scores: { ...c.scores, rerank: scores[i] } }))
+      .sort((a, b) => b.score - a.score)
+  }
+}
+
+/**
+ * Keyword-only hybrid hits have no similarity score; a score threshold shouldn't silently drop them
+ */
+const hasComparableScore = (c: RetrievedChunk) => c.scores.vector !== undefined || c.scores.rerank !== undefined
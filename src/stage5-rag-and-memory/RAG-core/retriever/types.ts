@@ -0,0 +1,42 @@
+import { Document } from '@langchain/core/documents'
+
+import type { MetadataFilter, VectorQueryResult } from '../vector-store/types'
+
+export type RetrievalMode = 'similarity' | 'mmr' | 'hybrid'
+
+/**
+ * A retrieved chunk. `score` stays on the 0..1 cosine scale (or the reranker's 0..1 relevance
+ * when a reranker ran), so thresholds mean the same thing in every mode; the per-stage scores
+ * are kept for debugging and tuning.
+ */
+export interface RetrievedChunk extends VectorQueryResult {
+  scores: {
+    vector?: number // cosine similarity from the vector store
+    keyword?: number // raw BM25 score
+    fused?: number // reciprocal rank fusion score (hybrid mode)
+    rerank?: number // reranker relevance
+  }
+}
+
+/**
+ * Optional last stage: re-score candidates against the query (Cohere rerank API, a local cross-scorer, an LLM...)
+ * @returns relevance per candidate, in the same order as `candidates`, on a 0..1 scale
+ */
+export interface Reranker {
+  rerank(query: string, candidates: RetrievedChunk[]): Promise<number[]>
+}
+
+export interface RetrieveOptions {
+  mode?: RetrievalMode
+  k?: number
+  fetchK?: number // candidates gathered before MMR / fusion / reranking (default k * 4)
+  filter?: MetadataFilter
+  minScore?: number // applied to the final score
+  mmrLambda?: number // 1 = pure relevance, 0 = pure diversity
+  rrfK?: number // reciprocal rank fusion constant
+}
+
+export interface RetrieverOptions extends RetrieveOptions {
+  documents?: Document[] // keyword (BM25) corpus, required for hybrid mode
+  reranker?: Reranker
+}
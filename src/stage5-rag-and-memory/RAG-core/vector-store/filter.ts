@@ -0,0 +1,108 @@
+import type { FilterCondition, FilterValue, MetadataFilter, RangeValue, VectorQueryResult } from './types'
+
+/**
+ * How many extra candidates to fetch when part of a filter can only be applied after search
+ */
+export const POST_FILTER_FETCH_MULTIPLIER = 4
+
+type Operator = '$eq' | '$in' | '$gt' | '$gte' | '$lt' | '$lte' | '$prefix'
+type Clause = { field: string; op: Operator; value: any }
+
+const isOperatorObject = (condition: FilterCondition): condition is Exclude<FilterCondition, FilterValue> =>
+  typeof condition === 'object' && condition !== null && !(condition instanceof Date)
+
+/**
+ * Flatten a filter into single-operator clauses (plain values mean equality)
+ */
+const toClauses = (filter: MetadataFilter = {}): Clause[] =>
+  Object.entries(filter).flatMap(([field, condition]) => {
+    if (!isOperatorObject(condition)) return [{ field, op: '$eq' as const, value: condition }]
+    return Object.entries(condition)
+      .filter(([, value]) => value !== undefined)
+      .map(([op, value]) => ({ field, op: op as Operator, value }))
+  })
+
+const fromClauses = (clauses: Clause[]): MetadataFilter | undefined => {
+  if (clauses.length === 0) return undefined
+  const filter: Record<string, Record<string, any>> = {}
+  clauses.forEach(({ field, op, value }) => (filter[field] = { ...filter[field], [op]: value }))
+  return filter
+}
+
+/**
+ * Dates (Date objects or ISO strings) compare as timestamps, everything else as-is
+ */
+const toComparable = (value: RangeValue | unknown): number | string | undefined => {
+  if (value instanceof Date) return value.getTime()
+  if (typeof value === 'number') return value
+  if (typeof value === 'string') {
+    const time = Date.parse(value)
+    return Number.isNaN(time) ? value : time
+  }
+  return undefined
+}
+
+const matchesClause = (metadata: Record<string, any>, { field, op, value }: Clause): boolean => {
+  const actual = metadata?.[field]
+  switch (op) {
+    case '$eq':
+      return actual === value
+    case '$in':
+      return (value as FilterValue[]).includes(actual)
+    case '$prefix':
+      return typeof actual === 'string' && actual.startsWith(value)
+    default: {
+      const [a, b] = [toComparable(actual), toComparable(value)]
+      if (a === undefined || b === undefined || typeof a !== typeof b) return false
+      if (op === '$gt') return a > b
+      if (op === '$gte') return a >= b
+      if (op === '$lt') return a < b
+      return a <= b
+    }
+  }
+}
+
+/**
+ * Evaluate a filter against document metadata (used for post-filtering and the in-memory store)
+ */
+export const matchesFilter = (metadata: Record<string, any>, filter?: MetadataFilter): boolean =>
+  toClauses(filter).every((clause) => matchesClause(metadata, clause))
+
+/**
+ * Split a filter into the part a store can evaluate natively and the part that must be post-filtered.
+ * Chroma and Pinecone only handle primitive equality/$in and numeric ranges; prefixes and
+ * date ranges fall back to post-filtering.
+ */
+export const splitFilter = (filter?: MetadataFilter): { native?: MetadataFilter; post?: MetadataFilter } => {
+  const clauses = toClauses(filter)
+  const isNative = ({ op, value }: Clause) => {
+    if (op === '$prefix') return false
+    if (op === '$eq' || op === '$in') return !(value instanceof Date)
+    return typeof value === 'number'
+  }
+  return {
+    native: fromClauses(clauses.filter(isNative)),
+    post: fromClauses(clauses.filter((c) => !isNative(c))),
+  }
+}
+
+/**
+ * Translate a (native-only) filter to Chroma's `where` syntax: one operator per clause, combined with $and
+ */
+export const toChromaWhere = (filter?: MetadataFilter): Record<string, any> | undefined => {
+  const clauses = toClauses(filter).map(({ field, op, value }) => ({ [field]: { [op]: value } }))
+  if (clauses.length === 0) return undefined
+  return clauses.length === 1 ? clauses[0] : { $and: clauses }
+}
+
+/**
+ * Translate a (native-only) filter to Pinecone's metadata filter syntax (fields are implicitly ANDed)
+ */
+export const toPineconeFilter = (filter?: MetadataFilter): Record<string, any> | undefined =>
+  fromClauses(toClauses(filter))
+
+/**
+ * Apply the post-filter part and trim to k
+ */
+export const applyPostFilter = (results: VectorQueryResult[], filter: MetadataFilter | undefined, k: number) =>
+  results.filter((r) => matchesFilter(r.metadata, filter)).slice(0, k)
@@ -12,10 +12,10 @@ async function main() {
   await storeManager.init(chunks)
 
   console.log("🔍 Searching for: 'refund policy for damaged items'")
-  const results = await storeManager.search('refund policy for damaged items', 3)
+  const results = await storeManager.search('refund policy for damaged items', { k: 3, minScore: 0.3 })
   console.log(
     'Results:',
-    results.map((r) => r.text),
+    results.map((r) => `${r.score.toFixed(3)} ${r.text}`),
   )
 }
 
@@ -0,0 +1,41 @@
+import * as fs from 'fs'
+import * as path from 'path'
+
+// No dots, so `base.namespace` names can always be split back unambiguously
+const NAMESPACE_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{0,62}$/
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+export const assertNamespace = (namespace: string) => {
+  if (!NAMESPACE_PATTERN.test(namespace)) {
+    throw new Error(`Invalid namespace "${namespace}": use up to 63 letters, digits, "-" or "_"`)
+  }
+}
+
+/**
+ * Per-tenant collection name: `knowledge` → `knowledge.acme` (unchanged without a namespace)
+ */
+export const namespacedName = (base: string, namespace?: string) => (namespace ? `${base}.${namespace}` : base)
+
+/**
+ * Per-tenant file or directory next to the base one: `data/store.json` → `data/store.acme.json`
+ */
+export const namespacedPath = (basePath: string, namespace?: string) => {
+  if (!namespace) return basePath
+  const { dir, name, ext } = path.parse(basePath)
+  return path.join(dir, `${name}.${namespace}${ext}`)
+}
+
+/**
+ * Namespaces that have a file or directory on disk next to `basePath`
+ */
+export const listNamespacedPaths = (basePath: string): string[] => {
+  const { dir, name, ext } = path.parse(path.resolve(basePath))
+  if (!fs.existsSync(dir)) return []
+  const pattern = new RegExp(`^${escapeRegExp(name)}\\.([A-Za-z0-9][A-Za-z0-9_-]*)${escapeRegExp(ext)}$`)
+  return fs
+    .readdirSync(dir)
+    .map((entry) => pattern.exec(entry)?.[1])
+    .filter((namespace): namespace is string => !!namespace)
+    .sort()
+}
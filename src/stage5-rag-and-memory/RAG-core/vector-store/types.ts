@@ -1,6 +1,56 @@
+import { Document } from '@langchain/core/documents'
+
+import type { EmbeddingRecord } from '../embeddings/types'
+
 export interface VectorQueryResult {
   id: string
-  score: number
+  score: number // cosine similarity on a 0..1 scale (1 = identical), comparable across stores
   metadata: Record<string, any>
   text: string
 }
+
+export type FilterValue = string | number | boolean
+export type RangeValue = number | string | Date // strings are compared as dates when they parse as ISO dates
+
+/**
+ * Store-agnostic metadata filter. Fields are ANDed; a plain value means equality.
+ * @example { type: 'faq', lang: { $in: ['en', 'de'] }, updatedAt: { $gte: '2025-01-01' }, source: { $prefix: 'docs/api/' } }
+ */
+export type FilterCondition =
+  | FilterValue
+  | {
+      $eq?: FilterValue
+      $in?: FilterValue[]
+      $gt?: RangeValue
+      $gte?: RangeValue
+      $lt?: RangeValue
+      $lte?: RangeValue
+      $prefix?: string
+    }
+
+export type MetadataFilter = Record<string, FilterCondition>
+
+export interface SearchOptions {
+  k?: number
+  minScore?: number // drop results scoring below this (0..1)
+  filter?: MetadataFilter
+}
+
+export type VectorStoreType = 'faiss' | 'chroma' | 'pinecone' | 'memory'
+
+/**
+ * Contract every vector store adapter implements, so VectorStoreManager can swap backends by config
+ */
+export interface VectorStore {
+  init(docs?: Document[]): Promise<void>
+  addDocuments(docs: Document[]): Promise<string[]> // returns the stored ids (usable with delete)
+  addEmbeddings?(records: EmbeddingRecord[]): Promise<string[]> // pre-computed vectors, where supported
+  similaritySearch(query: string, k?: number, filter?: MetadataFilter): Promise<VectorQueryResult[]>
+  embedTexts(texts: string[]): Promise<number[][]> // with the store's own embedding model, so vectors are comparable
+  delete(ids: string[]): Promise<void>
+  deleteAll(): Promise<void>
+  count(): Promise<number>
+  persist(): Promise<void> // no-op for server-side stores
+  listNamespaces(): Promise<string[]> // tenants holding data in this backend (the un-namespaced store isn't one)
+  copyToNamespace(namespace: string): Promise<number> // copies this store's vectors as-is, no re-embedding
+}
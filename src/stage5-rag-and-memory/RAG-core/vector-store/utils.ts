@@ -0,0 +1,42 @@
+import crypto from 'crypto'
+import { Document } from '@langchain/core/documents'
+
+import type { VectorQueryResult } from './types'
+
+/**
+ * Give every document a stable id (existing `id` or `metadata.id`, else a random UUID)
+ * and mirror it into metadata so search results can report it.
+ */
+export const assignIds = (docs: Document[]): { docs: Document[]; ids: string[] } => {
+  const ids = docs.map((d) => d.id ?? d.metadata?.id ?? crypto.randomUUID())
+  const withIds = docs.map(
+    (d, i) => new Document({ id: ids[i], pageContent: d.pageContent, metadata: { ...d.metadata, id: ids[i] } }),
+  )
+  return { docs: withIds, ids }
+}
+
+/**
+ * Map a LangChain document to the store-agnostic result shape
+ */
+export const toQueryResult = (doc: Document, score: number): VectorQueryResult => ({
+  id: doc.id ?? doc.metadata?.id ?? '',
+  score,
+  metadata: doc.metadata,
+  text: doc.pageContent,
+})
+
+/**
+ * Clamp a cosine similarity (-1..1) to the common 0..1 score scale
+ */
+export const clampScore = (score: number): number => Math.min(1, Math.max(0, score))
+
+/**
+ * Convert a squared L2 distance between unit-length vectors to cosine similarity.
+ * OpenAI embeddings are normalized, so ||a - b||² = 2 - 2·cos(a, b).
+ */
+export const squaredL2ToScore = (distance: number): number => clampScore(1 - distance / 2)
+
+/**
+ * Convert a cosine distance (1 - cos) to cosine similarity
+ */
+export const cosineDistanceToScore = (distance: number): number => clampScore(1 - distance)
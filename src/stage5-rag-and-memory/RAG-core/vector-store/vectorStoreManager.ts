@@ -1,27 +1,141 @@
 // src/rag/vectorStoreManager.ts
+import { Document } from '@langchain/core/documents'
+
 import { FaissVectorStore } from './vectorStores/faissStore'
 import { ChromaVectorStore } from './vectorStores/chromaStore'
 import { PineconeVectorStore } from './vectorStores/pineconeStore'
+import { MemoryVectorStore } from './vectorStores/memoryStore'
+import type { EmbeddingService } from '../embeddings/embeddingService'
+import type { EmbeddingRecord } from '../embeddings/types'
+import type { SearchOptions, VectorQueryResult, VectorStore, VectorStoreType } from './types'
+import { assertNamespace } from './namespace'
+
+export interface VectorStoreManagerOptions {
+  persistPath?: string // faiss, memory (memory stays in-process only when omitted)
+  collectionName?: string // chroma
+  indexName?: string // pinecone
+  embeddingService?: EmbeddingService // memory (defaults to the offline local provider)
+  embeddingModel?: string // faiss, chroma, pinecone: OpenAI embedding model (default text-embedding-3-small)
+  namespace?: string // tenant; every add, search and delete stays inside it (default: the shared, un-namespaced store)
+}
 
+/**
+ * One API over all vector store backends.
+ *
+ * Multi-tenancy: a manager created with `namespace` (or via `forNamespace`) only ever touches
+ * that tenant's data, using each backend's own isolation: a Pinecone namespace, a Chroma
+ * collection, or a separate FAISS/memory file. `listNamespaces`, `copyNamespace` and
+ * `dropNamespace` administer tenants from any manager of the same backend.
+ */
 export class VectorStoreManager {
-  private provider: FaissVectorStore | ChromaVectorStore | PineconeVectorStore
+  private provider: VectorStore
+  private type: VectorStoreType
+  private opts: VectorStoreManagerOptions
+
+  constructor(type: VectorStoreType, opts: VectorStoreManagerOptions = {}) {
+    if (opts.namespace !== undefined) assertNamespace(opts.namespace)
+    const { namespace, embeddingModel } = opts
+    this.type = type
+    this.opts = opts
 
-  constructor(type: 'faiss' | 'chroma' | 'pinecone') {
-    if (type === 'faiss') this.provider = new FaissVectorStore() as FaissVectorStore
-    else if (type === 'chroma') this.provider = new ChromaVectorStore()
-    else if (type === 'pinecone') this.provider = new PineconeVectorStore()
+    if (type === 'faiss') this.provider = new FaissVectorStore(opts.persistPath, embeddingModel, namespace)
+    else if (type === 'chroma') this.provider = new ChromaVectorStore(opts.collectionName, embeddingModel, namespace)
+    else if (type === 'pinecone') this.provider = new PineconeVectorStore(opts.indexName, embeddingModel, namespace)
+    else if (type === 'memory')
+      this.provider = new MemoryVectorStore(opts.persistPath, opts.embeddingService, namespace)
     else throw new Error('Invalid store type')
   }
 
-  async init(docs?: any[]) {
+  get namespace(): string | undefined {
+    return this.opts.namespace
+  }
+
+  /**
+   * Same backend and settings, scoped to another tenant (call init() on it before use)
+   */
+  forNamespace(namespace: string): VectorStoreManager {
+    return new VectorStoreManager(this.type, { ...this.opts, namespace })
+  }
+
+  async init(docs?: Document[]) {
     await this.provider.init(docs)
   }
 
-  async addDocuments(docs: any[]) {
-    await this.provider.addDocuments(docs)
+  async addDocuments(docs: Document[]): Promise<string[]> {
+    return await this.provider.addDocuments(docs)
+  }
+
+  /**
+   * Store vectors already computed by EmbeddingService (only stores that accept raw vectors)
+   */
+  async addEmbeddings(records: EmbeddingRecord[]): Promise<string[]> {
+    if (!this.provider.addEmbeddings) throw new Error('This vector store does not accept pre-computed embeddings')
+    return await this.provider.addEmbeddings(records)
+  }
+
+  /**
+   * Top-k similarity search. Pass a number for plain top-k, or options for a score threshold and metadata filter.
+   * @example search('refund policy', { k: 5, filter: { type: { $in: ['policy', 'faq'] }, source: { $prefix: 'docs/' } } })
+   */
+  async search(query: string, options: number | SearchOptions = 3): Promise<VectorQueryResult[]> {
+    const { k = 3, minScore, filter } = typeof options === 'number' ? { k: options } : options
+    const results = await this.provider.similaritySearch(query, k, filter)
+    return minScore === undefined ? results : results.filter((r) => r.score >= minScore)
+  }
+
+  /**
+   * Embed texts in the same vector space as the stored documents (e.g. to compare search results with each other)
+   */
+  async embed(texts: string[]): Promise<number[][]> {
+    return await this.provider.embedTexts(texts)
   }
 
-  async search(query: string, k = 3) {
-    return await this.provider.similaritySearch(query, k)
+  async delete(ids: string[]) {
+    await this.provider.delete(ids)
+  }
+
+  async deleteAll() {
+    await this.provider.deleteAll()
+  }
+
+  async count(): Promise<number> {
+    return await this.provider.count()
+  }
+
+  async persist() {
+    await this.provider.persist()
+  }
+
+  /**
+   * Tenants that currently hold data in this backend
+   */
+  async listNamespaces(): Promise<string[]> {
+    return await this.provider.listNamespaces()
+  }
+
+  /**
+   * Copy a tenant's vectors into another namespace without re-embedding. Records that already
+   * exist in the target (same id) are overwritten. Returns the number of records copied.
+   */
+  async copyNamespace(from: string, to: string): Promise<number> {
+    assertNamespace(to)
+    if (from === to) throw new Error('Source and target namespaces are the same')
+    if (!(await this.listNamespaces()).includes(from)) throw new Error(`Namespace not found: ${from}`)
+
+    const source = this.forNamespace(from)
+    await source.init()
+    return await source.provider.copyToNamespace(to)
+  }
+
+  /**
+   * Delete all of a tenant's vectors (no-op when the namespace has no data)
+   */
+  async dropNamespace(namespace: string) {
+    assertNamespace(namespace)
+    if (!(await this.listNamespaces()).includes(namespace)) return
+
+    const target = this.forNamespace(namespace)
+    await target.init()
+    await target.deleteAll()
   }
 }
@@ -4,40 +4,159 @@ import { Chroma } from '@langchain/community/vectorstores/chroma'
 import { OpenAIEmbeddings } from '@langchain/openai'
 import { Document } from '@langchain/core/documents'
 
-export class ChromaVectorStore {
+import type { MetadataFilter, VectorQueryResult, VectorStore } from '../types'
+import { assignIds, cosineDistanceToScore, squaredL2ToScore, toQueryResult } from '../utils'
+import { applyPostFilter, POST_FILTER_FETCH_MULTIPLIER, splitFilter, toChromaWhere } from '../filter'
+import { namespacedName } from '../namespace'
+
+const COPY_PAGE_SIZE = 500
+const LIST_PAGE_SIZE = 100
+
+type ChromaCollection = NonNullable<Chroma['collection']>
+
+// Chroma reports squared L2 for `l2` (its default) and 1 - dot for `ip`, which is the cosine distance for unit vectors
+const SCORE_BY_SPACE: Record<string, (distance: number) => number> = {
+  cosine: cosineDistanceToScore,
+  ip: cosineDistanceToScore,
+  l2: squaredL2ToScore,
+}
+
+/**
+ * Chroma collection store. Each namespace is its own collection (`knowledge` → `knowledge.acme`).
+ */
+export class ChromaVectorStore implements VectorStore {
   private store: Chroma | null = null
   private embedding: OpenAIEmbeddings
+  private embeddingModel: string
+  private baseCollectionName: string
   private collectionName: string
+  private toScore?: (distance: number) => number
 
-  constructor(collectionName = 'company-knowledge-collection') {
-    this.collectionName = collectionName
-    this.embedding = new OpenAIEmbeddings({ model: 'text-embedding-3-small' })
+  constructor(
+    collectionName = 'company-knowledge-collection',
+    embeddingModel = 'text-embedding-3-small',
+    namespace?: string,
+  ) {
+    this.baseCollectionName = collectionName
+    this.collectionName = namespacedName(collectionName, namespace)
+    this.embeddingModel = embeddingModel
+    this.embedding = new OpenAIEmbeddings({ model: embeddingModel })
   }
 
   async init(docs?: Document[]) {
+    this.toScore = undefined
+    this.store = new Chroma(this.embedding, {
+      collectionName: this.collectionName,
+      // Only applies when the collection is created; existing collections keep their space
+      collectionMetadata: { 'hnsw:space': 'cosine' },
+    })
+    // The store only creates its client inside ensureCollection(); listing namespaces mustn't create the collection
+    this.store.index ??= new (await Chroma.imports()).ChromaClient({ path: this.store.url, ...this.store.clientParams })
     if (docs) {
       console.log('🆕 Initializing new Chroma collection...')
-      this.store = await Chroma.fromDocuments(docs, this.embedding, {
-        collectionName: this.collectionName,
-      })
-    } else {
-      this.store = new Chroma(this.embedding, { collectionName: this.collectionName })
+      await this.addDocuments(docs)
     }
   }
 
   async addDocuments(docs: Document[]) {
     if (!this.store) throw new Error('Store not initialized')
-    await this.store.addDocuments(docs)
+    const { docs: withIds, ids } = assignIds(docs)
+    await this.store.addDocuments(withIds, { ids })
+    return ids
+  }
+
+  async similaritySearch(query: string, k = 3, filter?: MetadataFilter): Promise<VectorQueryResult[]> {
+    if (!this.store) throw new Error('Store not initialized')
+    const { native, post } = splitFilter(filter)
+    const fetchK = post ? k * POST_FILTER_FETCH_MULTIPLIER : k
+    const toScore = await this.scoreNormalizer()
+    const results = await this.store.similaritySearchWithScore(query, fetchK, toChromaWhere(native))
+    return applyPostFilter(
+      results.map(([doc, score]) => toQueryResult(doc, toScore(score))),
+      post,
+      k,
+    )
+  }
+
+  /**
+   * Pick the distance → score conversion from the collection's `hnsw:space` so L2 collections score correctly
+   */
+  private async scoreNormalizer() {
+    if (!this.toScore) {
+      const collection = await this.store!.ensureCollection()
+      const space = String(collection.metadata?.['hnsw:space'] ?? 'l2')
+      this.toScore = SCORE_BY_SPACE[space]
+      if (!this.toScore) throw new Error(`Unsupported Chroma distance space: ${space}`)
+    }
+    return this.toScore
+  }
+
+  async embedTexts(texts: string[]) {
+    return await this.embedding.embedDocuments(texts)
+  }
+
+  async delete(ids: string[]) {
+    if (!this.store) throw new Error('Store not initialized')
+    if (ids.length === 0) return
+    await this.store.delete({ ids })
+  }
+
+  async deleteAll() {
+    if (!this.store) throw new Error('Store not initialized')
+    const collection = await this.store.ensureCollection()
+    const { ids } = await collection.get({ include: [] })
+    if (ids.length > 0) await this.store.delete({ ids })
+  }
+
+  async count() {
+    if (!this.store) throw new Error('Store not initialized')
+    const collection = await this.store.ensureCollection()
+    return await collection.count()
+  }
+
+  async persist() {
+    // Chroma persists server-side on every write
+  }
+
+  async listNamespaces() {
+    if (!this.store) throw new Error('Store not initialized')
+    const prefix = `${this.baseCollectionName}.`
+    const namespaces: string[] = []
+    for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+      const collections: ChromaCollection[] = await this.store.index!.listCollections({ limit: LIST_PAGE_SIZE, offset })
+      for (const collection of collections) {
+        // deleteAll() empties a collection without removing it, so skip empty ones
+        if (collection.name.startsWith(prefix) && (await collection.count()) > 0) {
+          namespaces.push(collection.name.slice(prefix.length))
+        }
+      }
+      if (collections.length < LIST_PAGE_SIZE) break
+    }
+    return namespaces.sort()
   }
 
-  async similaritySearch(query: string, k = 3) {
+  async copyToNamespace(namespace: string) {
     if (!this.store) throw new Error('Store not initialized')
-    const results = await this.store.similaritySearch(query, k)
-    return results.map((r) => ({
-      id: r.metadata?.id ?? '',
-      score: (r as any).score ?? 0,
-      metadata: r.metadata,
-      text: r.pageContent,
-    }))
+    const source = await this.store.ensureCollection()
+    const target = new ChromaVectorStore(this.baseCollectionName, this.embeddingModel, namespace)
+    await target.init()
+
+    let copied = 0
+    for (let offset = 0; ; offset += COPY_PAGE_SIZE) {
+      const page = await source.get({
+        include: ['embeddings', 'documents', 'metadatas'],
+        limit: COPY_PAGE_SIZE,
+        offset,
+      })
+      if (page.ids.length === 0) break
+      const docs = page.ids.map(
+        (id: string, i: number) =>
+          new Document({ id, pageContent: page.documents[i] ?? '', metadata: page.metadatas[i] ?? {} }),
+      )
+      await target.store!.addVectors(page.embeddings, docs, { ids: page.ids })
+      copied += page.ids.length
+      if (page.ids.length < COPY_PAGE_SIZE) break
+    }
+    return copied
   }
 }
@@ -4,14 +4,27 @@ import { OpenAIEmbeddings } from '@langchain/openai'
 import { Document } from '@langchain/core/documents'
 import * as fs from 'fs'
 
-export class FaissVectorStore {
+import type { MetadataFilter, VectorQueryResult, VectorStore } from '../types'
+import { assignIds, squaredL2ToScore, toQueryResult } from '../utils'
+import { applyPostFilter, POST_FILTER_FETCH_MULTIPLIER } from '../filter'
+import { listNamespacedPaths, namespacedPath } from '../namespace'
+
+/**
+ * Local FAISS index. Each namespace is saved to its own directory next to `persistPath`
+ * (`faiss.index` → `faiss.acme.index`).
+ */
+export class FaissVectorStore implements VectorStore {
   private store: FaissStore | null = null
+  private basePath: string
   private persistPath: string
+  private embeddingModel: string
   private embedding: OpenAIEmbeddings
 
-  constructor(persistPath = './vector/faiss.index') {
-    this.persistPath = persistPath
-    this.embedding = new OpenAIEmbeddings({ model: 'text-embedding-3-small' })
+  constructor(persistPath = './vector/faiss.index', embeddingModel = 'text-embedding-3-small', namespace?: string) {
+    this.basePath = persistPath
+    this.persistPath = namespacedPath(persistPath, namespace)
+    this.embeddingModel = embeddingModel
+    this.embedding = new OpenAIEmbeddings({ model: embeddingModel })
   }
 
   async init(docs?: Document[]) {
@@ -21,13 +34,8 @@ export class FaissVectorStore {
         this.store = await FaissStore.load(this.persistPath, this.embedding)
       } else if (docs && docs.length > 0) {
         console.log('🆕 Creating new FAISS index...')
-        this.store = await FaissStore.fromDocuments(docs, this.embedding)
-        // Ensure the directory exists before saving
-        const dir = this.persistPath.substring(0, this.persistPath.lastIndexOf('/'))
-        if (dir && !fs.existsSync(dir)) {
-          fs.mkdirSync(dir, { recursive: true })
-        }
-        await this.store.save(this.persistPath)
+        this.store = new FaissStore(this.embedding, {})
+        await this.addDocuments(docs)
       } else {
         throw new Error('No documents provided and FAISS index not found')
       }
@@ -43,24 +51,77 @@ export class FaissVectorStore {
   }
 
   async addDocuments(docs: Document[]) {
+    // FAISS builds its index lazily, so a store emptied by deleteAll() can be refilled
+    if (!this.store) this.store = new FaissStore(this.embedding, {})
+    const { docs: withIds, ids } = assignIds(docs)
+    await this.store.addDocuments(withIds, { ids })
+    await this.persist()
+    return ids
+  }
+
+  async similaritySearch(query: string, k = 3, filter?: MetadataFilter): Promise<VectorQueryResult[]> {
     if (!this.store) throw new Error('Store not initialized')
-    await this.store.addDocuments(docs)
-    await this.store.save(this.persistPath)
+    // FaissStore has no metadata filtering, so over-fetch and post-filter
+    const fetchK = filter ? k * POST_FILTER_FETCH_MULTIPLIER : k
+    // IndexFlatL2 returns squared L2 distances
+    const results = await this.store.similaritySearchWithScore(query, fetchK)
+    return applyPostFilter(
+      results.map(([doc, score]) => toQueryResult(doc, squaredL2ToScore(score))),
+      filter,
+      k,
+    )
   }
 
-  async similaritySearch(query: string, k = 3) {
+  async embedTexts(texts: string[]) {
+    return await this.embedding.embedDocuments(texts)
+  }
+
+  async delete(ids: string[]) {
     if (!this.store) throw new Error('Store not initialized')
-    const results = await this.store.similaritySearch(query, k)
-    return results.map((r) => ({
-      id: r.metadata?.id ?? '',
-      score: (r as any).score ?? 0,
-      metadata: r.metadata,
-      text: r.pageContent,
-    }))
+    // FaissStore throws on unknown ids; other stores ignore them, so filter first
+    const known = new Set(Object.values(this.store.getMapping()))
+    const existing = ids.filter((id) => known.has(id))
+    if (existing.length === 0) return
+    await this.store.delete({ ids: existing })
+    await this.persist()
   }
 
   async deleteAll() {
-    if (fs.existsSync(this.persistPath)) fs.rmSync(this.persistPath)
+    if (fs.existsSync(this.persistPath)) fs.rmSync(this.persistPath, { recursive: true })
     this.store = null
   }
+
+  async count() {
+    return this.store ? Object.keys(this.store.getMapping()).length : 0
+  }
+
+  async persist() {
+    if (!this.store) return
+    // An empty FaissStore may have no index to write; drop the stale files instead
+    if ((await this.count()) === 0) {
+      if (fs.existsSync(this.persistPath)) fs.rmSync(this.persistPath, { recursive: true })
+      return
+    }
+    await this.store.save(this.persistPath)
+  }
+
+  async listNamespaces() {
+    return listNamespacedPaths(this.basePath)
+  }
+
+  async copyToNamespace(namespace: string) {
+    const count = await this.count()
+    if (!this.store || count === 0) return 0
+    const target = new FaissVectorStore(this.basePath, this.embeddingModel, namespace)
+    if (!fs.existsSync(target.persistPath)) {
+      await this.store.save(target.persistPath)
+      return count
+    }
+    // Merging doesn't dedupe, so drop the ids the target already has first
+    await target.init()
+    await target.delete(Object.values(this.store.getMapping()))
+    await target.store!.mergeFrom(this.store)
+    await target.persist()
+    return count
+  }
 }
@@ -0,0 +1,148 @@
+// src/rag/vectorStores/memoryStore.ts
+import { Document } from '@langchain/core/documents'
+import * as fs from 'fs'
+import * as path from 'path'
+
+import { EmbeddingService } from '../../embeddings/embeddingService'
+import type { EmbeddingRecord } from '../../embeddings/types'
+import type { MetadataFilter, VectorQueryResult, VectorStore } from '../types'
+import { assignIds, clampScore } from '../utils'
+import { matchesFilter } from '../filter'
+import { listNamespacedPaths, namespacedPath } from '../namespace'
+
+interface PersistedMemoryStore {
+  version: 1
+  dimensions?: number
+  records: EmbeddingRecord[]
+}
+
+/**
+ * Pure-TypeScript vector store: brute-force cosine search over an in-process array.
+ *
+ * No native binaries and no services to run, so it suits tests, demos and small
+ * corpora (up to tens of thousands of chunks). Optionally persisted as a JSON file.
+ *
+ * Queries (and documents added as text) are embedded with `embeddingService`, which
+ * defaults to the offline local provider. Pre-computed records passed to
+ * `addEmbeddings` must come from the same provider/model.
+ *
+ * Each namespace persists to its own file next to `persistPath` (`store.json` → `store.acme.json`).
+ * Without `persistPath` every instance is isolated anyway, and there is nothing to list or copy.
+ */
+export class MemoryVectorStore implements VectorStore {
+  private records = new Map<string, EmbeddingRecord>()
+  private dimensions?: number
+  private basePath?: string
+  private persistPath?: string
+  private embeddingService: EmbeddingService
+
+  constructor(persistPath?: string, embeddingService?: EmbeddingService, namespace?: string) {
+    this.basePath = persistPath
+    this.persistPath = persistPath && namespacedPath(persistPath, namespace)
+    this.embeddingService = embeddingService ?? new EmbeddingService('huggingface', { cacheEnabled: false })
+  }
+
+  async init(docs?: Document[]) {
+    if (this.persistPath && fs.existsSync(this.persistPath)) {
+      console.log('🔄 Loading existing in-memory store...')
+      const data: PersistedMemoryStore = JSON.parse(fs.readFileSync(this.persistPath, 'utf-8'))
+      this.dimensions = data.dimensions
+      this.records = new Map(data.records.map((r) => [r.id, r]))
+    } else if (docs && docs.length > 0) {
+      console.log('🆕 Creating new in-memory store...')
+      await this.addDocuments(docs)
+    }
+  }
+
+  async addDocuments(docs: Document[]) {
+    const { docs: withIds } = assignIds(docs)
+    const records = await this.embeddingService.embedDocuments(
+      withIds.map((d) => ({ id: d.id, text: d.pageContent, metadata: d.metadata })),
+    )
+    return await this.addEmbeddings(records)
+  }
+
+  /**
+   * Add vectors already computed by EmbeddingService (skips re-embedding)
+   */
+  async addEmbeddings(records: EmbeddingRecord[]) {
+    // Validate the whole batch first so a bad record doesn't leave a half-written store
+    records.forEach((r) => this.checkDimensions(r.vector))
+    for (const record of records) {
+      this.records.set(record.id, { ...record, metadata: { ...record.metadata, id: record.id } })
+    }
+    await this.persist()
+    return records.map((r) => r.id)
+  }
+
+  async similaritySearch(query: string, k = 3, filter?: MetadataFilter): Promise<VectorQueryResult[]> {
+    if (this.records.size === 0) return []
+    const queryVector = await this.embeddingService.embedQuery(query)
+    this.checkDimensions(queryVector)
+
+    const queryNorm = norm(queryVector)
+    // Brute force can filter first, so filtered searches still return a full k
+    const scored = [...this.records.values()]
+      .filter((r) => matchesFilter(r.metadata, filter))
+      .map((r) => ({ record: r, score: clampScore(cosine(queryVector, queryNorm, r.vector)) }))
+
+    return scored
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k)
+      .map(({ record, score }) => ({ id: record.id, score, metadata: record.metadata, text: record.text }))
+  }
+
+  async embedTexts(texts: string[]) {
+    const records = await this.embeddingService.embedDocuments(texts.map((text) => ({ text })))
+    return records.map((r) => r.vector)
+  }
+
+  async delete(ids: string[]) {
+    ids.forEach((id) => this.records.delete(id))
+    await this.persist()
+  }
+
+  async deleteAll() {
+    this.records.clear()
+    this.dimensions = undefined
+    if (this.persistPath && fs.existsSync(this.persistPath)) fs.rmSync(this.persistPath)
+  }
+
+  async count() {
+    return this.records.size
+  }
+
+  async persist() {
+    if (!this.persistPath) return
+    const data: PersistedMemoryStore = { version: 1, dimensions: this.dimensions, records: [...this.records.values()] }
+    fs.mkdirSync(path.dirname(this.persistPath), { recursive: true })
+    fs.writeFileSync(this.persistPath, JSON.stringify(data))
+  }
+
+  async listNamespaces() {
+    return this.basePath ? listNamespacedPaths(this.basePath) : []
+  }
+
+  async copyToNamespace(namespace: string) {
+    if (!this.basePath) throw new Error('In-process memory stores have no namespaces to copy to; set persistPath')
+    const target = new MemoryVectorStore(this.basePath, this.embeddingService, namespace)
+    await target.init()
+    return (await target.addEmbeddings([...this.records.values()])).length
+  }
+
+  private checkDimensions(vector: number[]) {
+    if (this.dimensions === undefined) this.dimensions = vector.length
+    if (vector.length !== this.dimensions) {
+      throw new Error(`Vector dimension mismatch: store uses ${this.dimensions}, got ${vector.length}`)
+    }
+  }
+}
+
+const norm = (v: number[]) => Math.sqrt(v.reduce((sum, x) => sum + x * x, 0))
+
+const cosine = (a: number[], aNorm: number, b: number[]) => {
+  let dot = 0
+  for (let i = 0; i < a.length; i++) dot += a[i] * b[i]
+  const denom = aNorm * norm(b)
+  return denom === 0 ? 0 : dot / denom
+}
@@ -5,40 +5,111 @@ import { OpenAIEmbeddings } from '@langchain/openai'
 import { Document } from '@langchain/core/documents'
 import { Pinecone } from '@pinecone-database/pinecone'
 
-export class PineconeVectorStore {
+import type { MetadataFilter, VectorQueryResult, VectorStore } from '../types'
+import { assignIds, clampScore, toQueryResult } from '../utils'
+import { applyPostFilter, POST_FILTER_FETCH_MULTIPLIER, splitFilter, toPineconeFilter } from '../filter'
+
+/**
+ * Pinecone index store. Namespaces map to native Pinecone namespaces; without one,
+ * the index's default ("") namespace is used.
+ */
+export class PineconeVectorStore implements VectorStore {
   private store: PineconeStore | null = null
   private client: Pinecone
   private indexName: string
+  private namespace: string
   private embedding: OpenAIEmbeddings
 
-  constructor(indexName = 'company-knowledge-index') {
+  constructor(indexName = 'company-knowledge-index', embeddingModel = 'text-embedding-3-small', namespace?: string) {
     this.indexName = indexName
+    this.namespace = namespace ?? ''
     this.client = new Pinecone({ apiKey: process.env.PINECONE_API_KEY! })
-    this.embedding = new OpenAIEmbeddings({ model: 'text-embedding-3-small' })
+    this.embedding = new OpenAIEmbeddings({ model: embeddingModel })
   }
 
   async init(docs?: Document[]) {
     const index = this.client.Index(this.indexName)
+    this.store = await PineconeStore.fromExistingIndex(this.embedding, {
+      pineconeIndex: index,
+      namespace: this.namespace || undefined,
+    })
     if (docs) {
-      this.store = await PineconeStore.fromDocuments(docs, this.embedding, { pineconeIndex: index })
-    } else {
-      this.store = await PineconeStore.fromExistingIndex(this.embedding, { pineconeIndex: index })
+      await this.addDocuments(docs)
     }
   }
 
   async addDocuments(docs: Document[]) {
     if (!this.store) throw new Error('Store not initialized')
-    await this.store.addDocuments(docs)
+    const { docs: withIds, ids } = assignIds(docs)
+    await this.store.addDocuments(withIds, { ids })
+    return ids
+  }
+
+  async similaritySearch(query: string, k = 3, filter?: MetadataFilter): Promise<VectorQueryResult[]> {
+    if (!this.store) throw new Error('Store not initialized')
+    const { native, post } = splitFilter(filter)
+    const fetchK = post ? k * POST_FILTER_FETCH_MULTIPLIER : k
+    // Pinecone returns the index metric directly (cosine similarity for our index)
+    const results = await this.store.similaritySearchWithScore(query, fetchK, toPineconeFilter(native))
+    return applyPostFilter(
+      results.map(([doc, score]) => toQueryResult(doc, clampScore(score))),
+      post,
+      k,
+    )
+  }
+
+  async embedTexts(texts: string[]) {
+    return await this.embedding.embedDocuments(texts)
+  }
+
+  async delete(ids: string[]) {
+    if (!this.store) throw new Error('Store not initialized')
+    if (ids.length === 0) return
+    await this.store.delete({ ids })
   }
 
-  async similaritySearch(query: string, k = 3) {
+  async deleteAll() {
     if (!this.store) throw new Error('Store not initialized')
-    const results = await this.store.similaritySearch(query, k)
-    return results.map((r) => ({
-      id: r.metadata?.id ?? '',
-      score: (r as any).score ?? 0,
-      metadata: r.metadata,
-      text: r.pageContent,
-    }))
+    await this.store.delete({ deleteAll: true, namespace: this.namespace })
+  }
+
+  async count() {
+    const stats = await this.client.Index(this.indexName).describeIndexStats()
+    return stats.namespaces?.[this.namespace]?.recordCount ?? 0
+  }
+
+  async persist() {
+    // Pinecone is a managed service; writes are durable once acknowledged
+  }
+
+  async listNamespaces() {
+    const stats = await this.client.Index(this.indexName).describeIndexStats()
+    return Object.entries(stats.namespaces ?? {})
+      .filter(([namespace, summary]) => namespace && summary.recordCount > 0)
+      .map(([namespace]) => namespace)
+      .sort()
+  }
+
+  /**
+   * Uses listPaginated, which Pinecone only supports on serverless indexes
+   */
+  async copyToNamespace(namespace: string) {
+    const index = this.client.Index(this.indexName)
+    const source = index.namespace(this.namespace)
+    const target = index.namespace(namespace)
+
+    let copied = 0
+    let paginationToken: string | undefined
+    do {
+      const page = await source.listPaginated({ paginationToken })
+      const ids = (page.vectors ?? []).map((v) => v.id).filter((id): id is string => !!id)
+      if (ids.length > 0) {
+        const { records } = await source.fetch(ids)
+        await target.upsert(Object.values(records))
+        copied += ids.length
+      }
+      paginationToken = page.pagination?.next
+    } while (paginationToken)
+    return copied
   }
 }
@@ -1,4 +1,4 @@
-import { HealthCheck, AskLLM, ChatDemo, ChatBox } from './components'
+import { HealthCheck, AskLLM, ChatDemo, ChatBox, AuthPanel } from './components'
 import { TaskPage } from './pages'
 
 export default function App() {
@@ -6,6 +6,7 @@ export default function App() {
     <div style={{ marginInline: 'auto', width: '100vw' }}>
       <h1 style={{ textAlign: 'center' }}>🚀 AI Task Hub Frontend</h1>
       <HealthCheck />
+      <AuthPanel />
       <ChatDemo />
       <ChatBox />
       <TaskPage />
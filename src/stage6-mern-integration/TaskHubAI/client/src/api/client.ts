@@ -11,7 +11,7 @@ const apiClient = axios.create({
   },
 })
 
-// Optional: Token injection (ready for 6.2.4)
+// Token injection; the token is stored by api/endpoints/auth.api.ts
 apiClient.interceptors.request.use((config) => {
   const token = localStorage.getItem('authToken')
   if (token) config.headers.Authorization = `Bearer ${token}`
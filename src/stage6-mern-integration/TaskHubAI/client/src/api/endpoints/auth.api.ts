@@ -0,0 +1,31 @@
+import apiClient from '../client'
+import type { ApiResponse, AuthResult, AuthUser } from '../types'
+
+// api/client.ts sends this as the bearer token on every request
+export const AUTH_TOKEN_KEY = 'authToken'
+// useStreamLLM keeps the current chat here; it belongs to whoever is signed in
+export const CHAT_SESSION_KEY = 'chatSessionId'
+
+export const getAuthToken = () => localStorage.getItem(AUTH_TOKEN_KEY)
+
+export const signup = async (email: string, password: string, name?: string) => {
+  const res = await apiClient.post<ApiResponse<AuthResult>>('/auth/signup', { email, password, name })
+  localStorage.setItem(AUTH_TOKEN_KEY, res.data.data.token)
+  return res.data
+}
+
+export const login = async (email: string, password: string) => {
+  const res = await apiClient.post<ApiResponse<AuthResult>>('/auth/login', { email, password })
+  localStorage.setItem(AUTH_TOKEN_KEY, res.data.data.token)
+  return res.data
+}
+
+export const logout = () => {
+  localStorage.removeItem(AUTH_TOKEN_KEY)
+  localStorage.removeItem(CHAT_SESSION_KEY)
+}
+
+export const getCurrentUser = async () => {
+  const res = await apiClient.get<ApiResponse<AuthUser>>('/auth/me')
+  return res.data
+}
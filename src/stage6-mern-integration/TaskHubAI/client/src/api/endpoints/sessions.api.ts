@@ -0,0 +1,21 @@
+import apiClient from '../client'
+import type { ApiResponse, ChatMessage, ChatSession } from '../types'
+
+export const getSessions = async (page = 1, limit = 20) => {
+  const res = await apiClient.get<ApiResponse<ChatSession[]>>('/sessions', { params: { page, limit } })
+  return res.data
+}
+
+export const getSessionMessages = async (id: string, page = 1, limit = 50) => {
+  const res = await apiClient.get<ApiResponse<ChatMessage[]>>(`/sessions/${id}/messages`, { params: { page, limit } })
+  return res.data
+}
+
+export const renameSession = async (id: string, title: string) => {
+  const res = await apiClient.patch<ApiResponse<ChatSession>>(`/sessions/${id}`, { title })
+  return res.data
+}
+
+export const deleteSession = async (id: string) => {
+  await apiClient.delete(`/sessions/${id}`)
+}
@@ -1,12 +1,26 @@
 import apiClient from '../client'
-import type { ApiResponse, Task } from '../types'
+import type { ApiResponse, Task, TaskEvent } from '../types'
+import { getAuthToken } from './auth.api'
 
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL
+const TASK_EVENT_TYPES: TaskEvent['type'][] = ['created', 'updated', 'deleted', 'output']
+const TASKS_PAGE_LIMIT = 100 // the server's maximum page size
+
+/**
+ * Every task, newest first. The list endpoint is paginated, so this walks all the pages.
+ */
 export const getAllTasks = async () => {
-  const res = await apiClient.get<ApiResponse<Task[]>>('/tasks')
-  return res.data
+  const tasks: Task[] = []
+  for (let page = 1; ; page++) {
+    const res = await apiClient.get<ApiResponse<Task[]>>('/tasks', {
+      params: { page, limit: TASKS_PAGE_LIMIT, sortBy: 'createdAt', sortOrder: 'desc' },
+    })
+    tasks.push(...res.data.data)
+    if (!res.data.meta || page >= res.data.meta.totalPages) return tasks
+  }
 }
 
-export const createTask = async (task: Omit<Task, 'id' | 'createdAt' | 'status'>) => {
+export const createTask = async (task: Omit<Task, 'id' | 'createdAt' | 'status' | 'attempts'>) => {
   const res = await apiClient.post<ApiResponse<Task>>('/tasks', task)
   return res.data
 }
@@ -16,6 +30,28 @@ export const runTask = async (id: string) => {
   return res.data
 }
 
+export const cancelTask = async (id: string) => {
+  const res = await apiClient.post<ApiResponse<Task>>(`/tasks/${id}/cancel`)
+  return res.data
+}
+
 export const deleteTask = async (id: string) => {
   await apiClient.delete(`/tasks/${id}`)
 }
+
+/**
+ * Listen to the server's task event stream. `onOpen` also fires after a reconnect,
+ * when events may have been missed. Returns a function that closes the stream.
+ */
+export const subscribeToTaskEvents = (onEvent: (event: TaskEvent) => void, onOpen?: () => void) => {
+  // EventSource can't send an Authorization header, so the token goes in the query string
+  const token = getAuthToken()
+  const source = new EventSource(
+    `${API_BASE_URL}/tasks/events${token ? `?access_token=${encodeURIComponent(token)}` : ''}`,
+  )
+  TASK_EVENT_TYPES.forEach((type) =>
+    source.addEventListener(type, (e) => onEvent({ type, ...JSON.parse((e as MessageEvent).data) })),
+  )
+  if (onOpen) source.onopen = onOpen
+  return () => source.close()
+}
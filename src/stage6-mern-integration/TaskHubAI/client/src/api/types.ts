@@ -3,13 +3,53 @@ export interface ApiResponse<T> {
   data: T
   message?: string
   output?: string
+  meta?: Pagination
+}
+
+export interface Pagination {
+  page: number
+  limit: number
+  total: number
+  totalPages: number
+}
+
+export interface AuthUser {
+  id: string
+  email: string
+  name?: string
+}
+
+export interface AuthResult {
+  user: AuthUser
+  token: string
 }
 
 export interface Task {
   id: string
   title: string
   description: string
-  status: 'pending' | 'running' | 'completed' | 'failed'
+  status: 'pending' | 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
   result?: string
+  attempts?: number
+  createdAt: string
+}
+
+export type TaskEvent =
+  | { type: 'created' | 'updated'; task: Task }
+  | { type: 'deleted'; id: string }
+  | { type: 'output'; id: string; chunk: string }
+
+export interface ChatSession {
+  id: string
+  title: string
+  messageCount: number
+  lastMessageAt?: string
+  createdAt: string
+}
+
+export interface ChatMessage {
+  id: string
+  role: 'human' | 'ai'
+  content: string
   createdAt: string
 }
@@ -0,0 +1,80 @@
+import { useEffect, useState } from 'react'
+import { getAuthToken, getCurrentUser, login, logout, signup } from '../api/endpoints/auth.api'
+import type { AuthUser } from '../api/types'
+import { handleApiError } from '../utils/errorHandler'
+
+export const AuthPanel = () => {
+  const [user, setUser] = useState<AuthUser | null>(null)
+  const [mode, setMode] = useState<'login' | 'signup'>('login')
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!getAuthToken()) return
+    getCurrentUser()
+      .then((res) => setUser(res.data))
+      .catch(() => logout()) // expired or revoked
+  }, [])
+
+  // The providers load tasks and open the event stream on mount, so reload to pick up the new token
+  const reload = () => window.location.reload()
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    try {
+      await (mode === 'login' ? login(email, password) : signup(email, password))
+      reload()
+    } catch (err) {
+      setError(handleApiError(err))
+    }
+  }
+
+  if (user) {
+    return (
+      <div className="flex items-center justify-center gap-3 p-4">
+        <span>
+          Signed in as <strong>{user.email}</strong>
+        </span>
+        <button
+          className="px-3 py-1 bg-gray-600 text-white rounded"
+          onClick={() => {
+            logout()
+            reload()
+          }}
+        >
+          Log out
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-2 p-4 max-w-sm mx-auto">
+      <input
+        type="email"
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        placeholder="Email"
+        className="border p-2 rounded"
+      />
+      <input
+        type="password"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        placeholder="Password"
+        className="border p-2 rounded"
+      />
+      {error && <p className="text-red-600 text-sm">{error}</p>}
+      <button className="bg-blue-600 text-white px-3 py-2 rounded">{mode === 'login' ? 'Log in' : 'Sign up'}</button>
+      <button
+        type="button"
+        className="text-blue-600 hover:underline text-sm"
+        onClick={() => setMode(mode === 'login' ? 'signup' : 'login')}
+      >
+        {mode === 'login' ? 'Need an account? Sign up' : 'Have an account? Log in'}
+      </button>
+    </form>
+  )
+}
@@ -2,3 +2,4 @@ export * from './HealthCheck'
 export * from './AskLLM'
 export * from './ChatDemo'
 export * from './ChatBox'
+export * from './AuthPanel'
@@ -5,7 +5,7 @@ import { TaskResultModal } from './TaskResultModal'
 import { useTasks } from '../../hooks'
 
 export const TaskList = () => {
-  const { tasks, loading, runExistingTask, deleteExistingTask } = useTasks()
+  const { tasks, loading, runExistingTask, cancelExistingTask, deleteExistingTask } = useTasks()
   const [expandedTask, setExpandedTask] = useState<string | null>(null)
   const [modalTask, setModalTask] = useState<string | null>(null)
 
@@ -42,18 +42,26 @@ export const TaskList = () => {
                   <div className="flex flex-col items-center justify-center gap-2">
                     <button
                       className="px-3 py-1 bg-blue-500 text-white rounded"
-                      disabled={t.status === 'running'}
+                      disabled={t.status === 'queued' || t.status === 'running'}
                       onClick={() => runExistingTask(t.id)}
                     >
                       Run
                     </button>
+                    {(t.status === 'queued' || t.status === 'running') && (
+                      <button
+                        className="px-3 py-1 bg-yellow-500 text-white rounded"
+                        onClick={() => cancelExistingTask(t.id)}
+                      >
+                        Cancel
+                      </button>
+                    )}
                     <button
                       className="px-3 py-1 bg-red-500 text-white rounded"
                       onClick={() => deleteExistingTask(t.id)}
                     >
                       Delete
                     </button>
-                    {(t.status === 'completed' || t.status === 'failed') && (
+                    {(t.status === 'completed' || t.status === 'failed' || t.status === 'running') && (
                       <button
                         className="px-3 py-1 bg-gray-600 text-white rounded"
                         onClick={() => setExpandedTask(expandedTask === t.id ? null : t.id)}
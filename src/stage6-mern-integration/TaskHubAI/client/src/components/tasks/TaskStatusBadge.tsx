@@ -4,6 +4,8 @@ export const TaskStatusBadge = ({ status }: { status: string }) => {
       ? 'bg-green-200 text-green-800'
       : status === 'running'
       ? 'bg-yellow-200 text-yellow-800'
+      : status === 'queued'
+      ? 'bg-blue-200 text-blue-800'
       : status === 'failed'
       ? 'bg-red-200 text-red-800'
       : 'bg-gray-200 text-gray-800'
@@ -1,7 +1,14 @@
-import { useState, type ReactNode, useCallback } from 'react'
-import { createTask, getAllTasks, runTask, deleteTask } from '../api/endpoints/tasks.api'
+import { useEffect, useState, type ReactNode } from 'react'
+import {
+  createTask,
+  getAllTasks,
+  runTask,
+  cancelTask,
+  deleteTask,
+  subscribeToTaskEvents,
+} from '../api/endpoints/tasks.api'
 import { handleApiError } from '../utils/errorHandler'
-import type { Task } from '../api/types'
+import type { Task, TaskEvent } from '../api/types'
 import { TaskContext } from '../hooks'
 
 export const TaskProvider = ({ children }: { children: ReactNode }) => {
@@ -13,8 +20,7 @@ export const TaskProvider = ({ children }: { children: ReactNode }) => {
   const fetchTasks = async () => {
     setLoading(true)
     try {
-      const res = await getAllTasks()
-      setTasks(res.data)
+      setTasks(await getAllTasks())
     } catch (err) {
       setError(handleApiError(err))
     } finally {
@@ -26,7 +32,8 @@ export const TaskProvider = ({ children }: { children: ReactNode }) => {
     setLoading(true)
     try {
       const res = await createTask({ title, description })
-      setTasks((prev) => [...prev, res.data])
+      // The `created` event may have added it already; the list is newest first
+      setTasks((prev) => [res.data, ...prev.filter((t) => t.id !== res.data.id)])
     } catch (err) {
       setError(handleApiError(err))
     } finally {
@@ -43,6 +50,15 @@ export const TaskProvider = ({ children }: { children: ReactNode }) => {
     }
   }
 
+  const cancelExistingTask = async (id: string) => {
+    try {
+      const res = await cancelTask(id)
+      setTasks((prev) => prev.map((t) => (t.id === id ? res.data : t)))
+    } catch (err) {
+      setError(handleApiError(err))
+    }
+  }
+
   const deleteExistingTask = async (id: string) => {
     try {
       await deleteTask(id)
@@ -52,18 +68,41 @@ export const TaskProvider = ({ children }: { children: ReactNode }) => {
     }
   }
 
-  // Polling for status updates every 5 seconds
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  const pollTasks = useCallback(() => {
-    const interval = setInterval(fetchTasks, 5000)
-    return () => clearInterval(interval)
-  }, [])
+  // Live updates from the server's task event stream
+  useEffect(() => {
+    const applyEvent = (event: TaskEvent) => {
+      switch (event.type) {
+        case 'created':
+          return setTasks((prev) => [event.task, ...prev.filter((t) => t.id !== event.task.id)])
+        case 'updated':
+          // A new run starts with an empty result that `output` events fill in
+          return setTasks((prev) =>
+            prev.map((t) =>
+              t.id === event.task.id
+                ? { ...event.task, result: event.task.status === 'running' ? '' : event.task.result }
+                : t,
+            ),
+          )
+        case 'deleted':
+          return setTasks((prev) => prev.filter((t) => t.id !== event.id))
+        case 'output':
+          return setTasks((prev) =>
+            prev.map((t) => (t.id === event.id ? { ...t, result: (t.result ?? '') + event.chunk } : t)),
+          )
+      }
+    }
 
-  // useEffect(() => {
-  //   fetchTasks()
-  //   const stopPolling = pollTasks()
-  //   return stopPolling
-  // }, [pollTasks])
+    // Re-sync on every (re)connect, since events sent while disconnected are lost
+    const resync = async () => {
+      try {
+        setTasks(await getAllTasks())
+      } catch (err) {
+        setError(handleApiError(err))
+      }
+    }
+
+    return subscribeToTaskEvents(applyEvent, resync)
+  }, [])
 
   return (
     <TaskContext.Provider
@@ -74,6 +113,7 @@ export const TaskProvider = ({ children }: { children: ReactNode }) => {
         fetchTasks,
         addTask,
         runExistingTask,
+        cancelExistingTask,
         deleteExistingTask,
       }}
     >
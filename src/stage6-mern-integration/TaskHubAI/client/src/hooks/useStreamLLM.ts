@@ -1,5 +1,6 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { useState, useCallback, useRef } from 'react'
+import { CHAT_SESSION_KEY, getAuthToken } from '../api/endpoints/auth.api'
 
 interface StreamOptions {
   query: string
@@ -10,11 +11,23 @@ interface StreamOptions {
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL
 
+const storeSessionId = (id: string | null) =>
+  id ? localStorage.setItem(CHAT_SESSION_KEY, id) : localStorage.removeItem(CHAT_SESSION_KEY)
+
 export const useStreamLLM = () => {
   const [isStreaming, setIsStreaming] = useState(false)
   const [response, setResponse] = useState('')
   const [error, setError] = useState<string | null>(null)
   const controllerRef = useRef<AbortController | null>(null)
+  // The server starts a new session when none is sent and reports its id in a `session` event
+  const [sessionId, setSessionId] = useState<string | null>(() => localStorage.getItem(CHAT_SESSION_KEY))
+  const sessionIdRef = useRef(sessionId)
+
+  const selectSession = useCallback((id: string | null) => {
+    sessionIdRef.current = id
+    setSessionId(id)
+    storeSessionId(id)
+  }, [])
 
   const startStream = useCallback(async ({ query, onComplete, onError, onChunk }: StreamOptions) => {
     setIsStreaming(true)
@@ -24,15 +37,27 @@ export const useStreamLLM = () => {
     try {
       const url = `${API_BASE_URL}/langchain/v2/ask`
       controllerRef.current = new AbortController()
-
-      const res = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ query }),
-        signal: controllerRef.current.signal,
-      })
+      const { signal } = controllerRef.current
+
+      const send = () =>
+        fetch(url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(getAuthToken() && { Authorization: `Bearer ${getAuthToken()}` }),
+          },
+          body: JSON.stringify({ query, sessionId: sessionIdRef.current ?? undefined }),
+          signal,
+        })
+
+      let res = await send()
+      // The stored session was deleted or belongs to another account: start a new chat instead
+      if (res.status === 404 && sessionIdRef.current) {
+        sessionIdRef.current = null
+        setSessionId(null)
+        storeSessionId(null)
+        res = await send()
+      }
 
       if (!res.ok) {
         throw new Error(`Stream request failed with status ${res.status}`)
@@ -84,6 +109,11 @@ export const useStreamLLM = () => {
             } catch (e: any) {
               throw new Error(e.message || 'Stream error occurred')
             }
+          } else if (eventType === 'session') {
+            const { sessionId: id } = JSON.parse(data)
+            sessionIdRef.current = id
+            setSessionId(id)
+            storeSessionId(id)
           } else if (eventType === 'end') {
             // Stream completed successfully
             console.log('[useStreamLLM] Stream ended')
@@ -144,5 +174,7 @@ export const useStreamLLM = () => {
     error,
     startStream,
     stopStream,
+    sessionId,
+    selectSession, // null starts a new chat
   }
 }
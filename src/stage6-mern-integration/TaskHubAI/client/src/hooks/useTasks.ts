@@ -8,6 +8,7 @@ interface TaskContextType {
   fetchTasks: () => Promise<void>
   addTask: (title: string, description: string) => Promise<void>
   runExistingTask: (id: string) => Promise<void>
+  cancelExistingTask: (id: string) => Promise<void>
   deleteExistingTask: (id: string) => Promise<void>
 }
 
@@ -1,17 +1,20 @@
 import { Config } from './config/env'
-import express, { Application } from 'express'
+import express, { Application, Request } from 'express'
 import cors from 'cors'
 import bodyParser from 'body-parser'
 import morgan from 'morgan'
 import routes from './routes'
 import { errorHandler } from './middleware/errorHandler'
 import { connectDB } from './config/db'
+import { taskQueue } from './services/taskQueue'
 
 const app: Application = express()
 
 // Middleware
 app.use(cors())
 app.use(bodyParser.json())
+// The task event stream takes its token in the query string; keep it out of the request log
+morgan.token<Request>('url', (req) => req.originalUrl.replace(/([?&]access_token=)[^&]*/g, '$1[redacted]'))
 app.use(morgan('dev'))
 
 // API routes
@@ -20,8 +23,10 @@ app.use('/api', routes)
 // Error handler (must be last)
 app.use(errorHandler)
 
-// Connect DB
+// Connect DB, then pick up tasks interrupted by the last shutdown
 connectDB()
+  .then(() => taskQueue.recover())
+  .catch((err) => console.error('❌ Task recovery failed:', err.message))
 
 // Server Listen
 app.listen(Config.port, () => {
@@ -5,4 +5,12 @@ export const Config = {
   port: Number(process.env.PORT) ?? 8080,
   openAIApiKey: process.env.OPENAI_API_KEY ?? '',
   nodeEnv: process.env.NODE_ENV ?? 'development',
+  jwtSecret: process.env.JWT_SECRET ?? '',
+  jwtExpiresIn: process.env.JWT_EXPIRES_IN ?? '7d',
+  taskQueue: {
+    concurrency: Number(process.env.TASK_CONCURRENCY ?? 2),
+    maxRetries: Number(process.env.TASK_MAX_RETRIES ?? 2),
+    backoffMs: Number(process.env.TASK_BACKOFF_MS ?? 2000),
+    timeoutMs: Number(process.env.TASK_TIMEOUT_MS ?? 120_000),
+  },
 }
@@ -0,0 +1,57 @@
+import { Request, Response } from 'express'
+import * as authService from '../services/authService'
+import { HttpError, successResponse } from '../utils'
+
+const MIN_PASSWORD_LENGTH = 8
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+const parseCredentials = (body: any) => {
+  const email = typeof body?.email === 'string' ? body.email.trim() : ''
+  const password = typeof body?.password === 'string' ? body.password : ''
+  if (!EMAIL_PATTERN.test(email)) throw new HttpError(400, 'A valid email is required')
+  if (!password) throw new HttpError(400, 'password is required')
+  return { email, password }
+}
+
+export const signup = async (req: Request, res: Response) => {
+  const { email, password } = parseCredentials(req.body)
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new HttpError(400, `password must be at least ${MIN_PASSWORD_LENGTH} characters`)
+  }
+  const name = typeof req.body.name === 'string' ? req.body.name : undefined
+
+  const result = await authService.signup(email, password, name)
+  if (!result) throw new HttpError(409, 'An account with this email already exists')
+  res.status(201).json(successResponse(result))
+}
+
+export const login = async (req: Request, res: Response) => {
+  const { email, password } = parseCredentials(req.body)
+  const result = await authService.login(email, password)
+  if (!result) throw new HttpError(401, 'Invalid email or password')
+  res.json(successResponse(result))
+}
+
+export const me = async (req: Request, res: Response) => {
+  res.json(successResponse(req.user))
+}
+
+export const listApiKeys = async (req: Request, res: Response) => {
+  res.json(successResponse(await authService.listApiKeys(req.user!.id)))
+}
+
+/**
+ * The response holds the full key; it can't be retrieved again
+ */
+export const createApiKey = async (req: Request, res: Response) => {
+  const name = typeof req.body?.name === 'string' ? req.body.name.trim() : ''
+  if (!name) throw new HttpError(400, 'name is required')
+  const created = await authService.createApiKey(req.user!.id, name)
+  if (!created) throw new HttpError(404, 'User not found')
+  res.status(201).json(successResponse(created))
+}
+
+export const revokeApiKey = async (req: Request, res: Response) => {
+  if (!(await authService.revokeApiKey(req.user!.id, req.params.id))) throw new HttpError(404, 'API key not found')
+  res.status(204).end()
+}
@@ -1,10 +1,11 @@
+import { randomUUID } from 'crypto'
 import { Request, Response } from 'express'
 import { getChatModel } from '../langchainHelper/config/modelProvider'
 import { createSimpleChatChain } from '../langchainHelper/chains/simpleChatChain'
 import { toolAgentExecutor } from '../langchainHelper/agent/toolAgentExecutor'
 import { errorResponse, successResponse } from '../utils'
 import { chatAgentExecutor } from '../langchainHelper/agent/chatAgentExecutor'
-import { findOrCreateSession, saveMessage } from '../services/chatService'
+import { autoTitleSession, findOrCreateSession, saveMessage } from '../services/chatService'
 
 export const testLLM = async (req: Request, res: Response) => {
   try {
@@ -59,7 +60,9 @@ export const askController = async (req: Request, res: Response) => {
 }
 
 export const askControllerV2 = async (req: Request, res: Response) => {
-  const { query, sessionId = 'user-1234', userId } = req.body
+  // Without a sessionId this starts a new chat; the id comes back in the first `session` event
+  const { query, sessionId = randomUUID() } = req.body
+  const userId = req.user!.id
 
   if (!query) {
     return res.status(400).json({ error: "Missing 'query' field in body" })
@@ -71,6 +74,10 @@ export const askControllerV2 = async (req: Request, res: Response) => {
     if (!session) {
       return res.status(400).json({ error: 'Failed to create session' })
     }
+    // Session ids are client-supplied, so don't let one user continue another's chat
+    if (session.userId !== userId) {
+      return res.status(404).json({ error: 'Session not found' })
+    }
 
     // Save user message
     await saveMessage(session, 'human', query)
@@ -81,6 +88,7 @@ export const askControllerV2 = async (req: Request, res: Response) => {
     res.setHeader('Content-Type', 'text/event-stream')
     res.setHeader('Cache-Control', 'no-cache')
     res.setHeader('Connection', 'keep-alive')
+    res.write(`event: session\ndata: ${JSON.stringify({ sessionId: session.sessionId })}\n\n`)
 
     let finalOutput = ''
 
@@ -127,6 +135,10 @@ export const askControllerV2 = async (req: Request, res: Response) => {
     // Persist assistant message
     if (finalOutput) {
       await saveMessage(session, 'ai', finalOutput)
+      // Not awaited: the title shows up in GET /sessions once it's ready
+      autoTitleSession(session, query, finalOutput).catch((err) =>
+        console.error('Session title generation failed:', err.message),
+      )
     }
 
     res.write(`event: end\ndata: {}\n\n`)
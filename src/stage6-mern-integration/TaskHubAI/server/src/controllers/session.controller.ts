@@ -0,0 +1,41 @@
+import { Request, Response } from 'express'
+import * as chatService from '../services/chatService'
+import { HttpError, parsePageQuery, successResponse } from '../utils'
+
+const MAX_TITLE_LENGTH = 100
+
+/**
+ * GET /sessions?page=1&limit=20 — the caller's sessions
+ */
+export const list = async (req: Request, res: Response) => {
+  const { items, ...pagination } = await chatService.listSessions({
+    ...parsePageQuery(req.query),
+    userId: req.user!.id,
+  })
+  res.json(successResponse(items, undefined, pagination))
+}
+
+/**
+ * GET /sessions/:id/messages?page=1&limit=50 — oldest first
+ */
+export const messages = async (req: Request, res: Response) => {
+  const { id } = req.params
+  if (!(await chatService.getSession(id, req.user!.id))) throw new HttpError(404, 'Session not found')
+  const { items, ...pagination } = await chatService.getSessionMessagesPage(id, parsePageQuery(req.query, 50))
+  res.json(successResponse(items, undefined, pagination))
+}
+
+export const rename = async (req: Request, res: Response) => {
+  const title = typeof req.body?.title === 'string' ? req.body.title.trim() : ''
+  if (!title) throw new HttpError(400, 'title is required')
+  if (title.length > MAX_TITLE_LENGTH) throw new HttpError(400, `title must be at most ${MAX_TITLE_LENGTH} characters`)
+
+  const session = await chatService.renameSession(req.params.id, req.user!.id, title)
+  if (!session) throw new HttpError(404, 'Session not found')
+  res.json(successResponse(session))
+}
+
+export const remove = async (req: Request, res: Response) => {
+  if (!(await chatService.deleteSession(req.params.id, req.user!.id))) throw new HttpError(404, 'Session not found')
+  res.status(204).end()
+}
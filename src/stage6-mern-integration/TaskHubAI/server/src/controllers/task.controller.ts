@@ -1,36 +1,94 @@
 import { Request, Response } from 'express'
 import * as taskService from '../services/taskService'
-import { runTaskChain } from '../langchainHelper/chains/taskChain'
-import { errorResponse, successResponse } from '../utils'
+import { subscribeToTaskEvents } from '../services/taskEvents'
+import { taskQueue } from '../services/taskQueue'
+import { TASK_STATUSES, TaskListQuery, TaskSortField, TaskStatus } from '../types'
+import { HttpError, parsePageQuery, successResponse } from '../utils'
+
+const SORT_FIELDS: TaskSortField[] = ['createdAt', 'updatedAt', 'title', 'status']
+const HEARTBEAT_MS = 25_000
+
+const parseListQuery = (query: Request['query']): TaskListQuery => {
+  const { page, limit } = parsePageQuery(query)
+  const { status, sortBy = 'createdAt', sortOrder = 'desc' } = query as Record<string, string | undefined>
+
+  if (status !== undefined && !TASK_STATUSES.includes(status as TaskStatus)) {
+    throw new HttpError(400, `status must be one of ${TASK_STATUSES.join(', ')}`)
+  }
+  if (!SORT_FIELDS.includes(sortBy as TaskSortField)) {
+    throw new HttpError(400, `sortBy must be one of ${SORT_FIELDS.join(', ')}`)
+  }
+  if (sortOrder !== 'asc' && sortOrder !== 'desc') throw new HttpError(400, 'sortOrder must be asc or desc')
+
+  return { page, limit, status: status as TaskStatus | undefined, sortBy: sortBy as TaskSortField, sortOrder }
+}
 
 export const create = async (req: Request, res: Response) => {
   const { title, description } = req.body
-  const task = taskService.createTask(title, description)
+  if (typeof title !== 'string' || !title.trim()) throw new HttpError(400, 'title is required')
+  const task = await taskService.createTask(req.user!.id, title, description)
   res.status(201).json(successResponse(task))
 }
 
+/**
+ * GET /tasks?page=1&limit=20&status=pending&sortBy=createdAt&sortOrder=desc
+ */
 export const list = async (req: Request, res: Response) => {
-  res.json(successResponse(taskService.listTasks()))
+  const { items, ...pagination } = await taskService.listTasks({ ...parseListQuery(req.query), userId: req.user!.id })
+  res.json(successResponse(items, undefined, pagination))
 }
 
+/**
+ * Queue the task and return straight away; poll the task (or wait for its event) for the outcome
+ */
 export const run = async (req: Request, res: Response) => {
   const { id } = req.params
-  const task = taskService.getTask(id)
-  if (!task) throw new Error('Task not found')
-
-  try {
-    taskService.updateTask(id, { status: 'running' })
-    const output = await runTaskChain(task.description || '')
-    taskService.updateTask(id, { status: 'completed', result: output })
-    res.json(successResponse(taskService.getTask(id)))
-  } catch (err: any) {
-    taskService.updateTask(id, { status: 'failed', result: err.message })
-    res.status(500).json(errorResponse(err.message))
-  }
+  const task = await taskService.getTask(id, req.user!.id)
+  if (!task) throw new HttpError(404, 'Task not found')
+  if (taskQueue.has(id)) throw new HttpError(409, `Task is already ${task.status}`)
+
+  res.status(202).json(successResponse(await taskQueue.enqueue(id), 'Task queued'))
+}
+
+export const cancel = async (req: Request, res: Response) => {
+  const { id } = req.params
+  const task = await taskService.getTask(id, req.user!.id)
+  if (!task) throw new HttpError(404, 'Task not found')
+
+  const cancelled = await taskQueue.cancel(id)
+  if (!cancelled) throw new HttpError(409, `Task is ${task.status}, not queued or running`)
+  res.json(successResponse(cancelled))
 }
 
 export const remove = async (req: Request, res: Response) => {
   const { id } = req.params
-  taskService.deleteTask(id)
+  if (!(await taskService.getTask(id, req.user!.id))) throw new HttpError(404, 'Task not found')
+  await taskQueue.cancel(id)
+  if (!(await taskService.deleteTask(id, req.user!.id))) throw new HttpError(404, 'Task not found')
   res.status(204).end()
 }
+
+/**
+ * GET /tasks/events — Server-Sent Events for the caller's tasks: `created`, `updated`, `deleted` and `output`
+ * (streamed LLM tokens). There is no replay, so clients should re-fetch the list whenever the stream (re)connects.
+ */
+export const events = (req: Request, res: Response) => {
+  res.setHeader('Content-Type', 'text/event-stream')
+  res.setHeader('Cache-Control', 'no-cache')
+  res.setHeader('Connection', 'keep-alive')
+  res.flushHeaders()
+  res.write('retry: 3000\n\n')
+
+  const userId = req.user!.id
+  const unsubscribe = subscribeToTaskEvents(({ type, userId: owner, ...data }) => {
+    if (owner !== userId) return
+    res.write(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`)
+  })
+  // Comment lines keep proxies from closing an idle stream
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS)
+
+  req.on('close', () => {
+    clearInterval(heartbeat)
+    unsubscribe()
+  })
+}
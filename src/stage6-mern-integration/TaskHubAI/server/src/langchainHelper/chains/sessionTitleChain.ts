@@ -0,0 +1,21 @@
+import { getChatModel } from '../config/modelProvider'
+import { PromptTemplate } from '@langchain/core/prompts'
+
+const MAX_TITLE_LENGTH = 60
+
+const llm = getChatModel({ temperature: 0 })
+
+const prompt = PromptTemplate.fromTemplate(
+  `Write a short title (at most 6 words) for a chat that opens with this exchange.\n` +
+    `Reply with the title only, without quotes or a trailing period.\n\nUser: {question}\nAssistant: {answer}`,
+)
+
+export const generateSessionTitle = async (question: string, answer: string) => {
+  const chain = prompt.pipe(llm)
+  // The opening of the answer is enough to tell the topic
+  const result = await chain.invoke({ question, answer: answer.slice(0, 1000) })
+  return result.text
+    .trim()
+    .replace(/^["'“]+|["'”.]+$/g, '')
+    .slice(0, MAX_TITLE_LENGTH)
+}
@@ -7,8 +7,19 @@ const prompt = PromptTemplate.fromTemplate(
   `You are an assistant performing a task.\nTask description: {description}\nGive your concise output.`,
 )
 
-export const runTaskChain = async (description: string) => {
+export interface TaskChainOptions {
+  signal?: AbortSignal
+  onToken?: (token: string) => void
+}
+
+export const runTaskChain = async (description: string, { signal, onToken }: TaskChainOptions = {}) => {
   const chain = prompt.pipe(llm)
-  const result = await chain.invoke({ description })
-  return result.text
+  let output = ''
+  for await (const chunk of await chain.stream({ description }, { signal })) {
+    if (chunk.text) {
+      output += chunk.text
+      onToken?.(chunk.text)
+    }
+  }
+  return output
 }
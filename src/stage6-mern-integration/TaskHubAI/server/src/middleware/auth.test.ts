@@ -0,0 +1,113 @@
+import assert from 'node:assert/strict'
+import type { Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { after, before, beforeEach, describe, it, mock } from 'node:test'
+import express from 'express'
+import jwt from 'jsonwebtoken'
+import { Types } from 'mongoose'
+import { Config } from '../config/env'
+import { User } from '../model'
+import { createApiKey, revokeApiKey } from '../services/authService'
+import { errorHandler } from './errorHandler'
+import { requireAuth, requireStreamAuth } from './auth'
+
+const alice = { _id: new Types.ObjectId(), email: 'alice@example.com', name: 'Alice' }
+
+/**
+ * Stands in for the users collection: one user and their API keys
+ */
+const mockUsers = () => {
+  const apiKeys: { _id: Types.ObjectId; keyHash: string; createdAt: Date }[] = []
+  mock.method(User, 'findById', async (id: string) => (id === String(alice._id) ? alice : null))
+  mock.method(User, 'findByIdAndUpdate', async (_id: string, update: any) => {
+    apiKeys.push({ _id: new Types.ObjectId(), ...update.$push.apiKeys, createdAt: new Date() })
+    return { ...alice, apiKeys }
+  })
+  mock.method(User, 'updateOne', async (_filter: unknown, update: any) => {
+    const index = apiKeys.findIndex((k) => String(k._id) === String(update.$pull.apiKeys._id))
+    if (index !== -1) apiKeys.splice(index, 1)
+    return { modifiedCount: index === -1 ? 0 : 1 }
+  })
+  mock.method(User, 'findOneAndUpdate', async (filter: any) =>
+    apiKeys.some((k) => k.keyHash === filter['apiKeys.keyHash']) ? alice : null,
+  )
+}
+
+describe('auth middleware', () => {
+  let server: Server
+  let origin: string
+  let token: string
+
+  before(async () => {
+    Config.jwtSecret = 'test-secret'
+    token = jwt.sign({ email: alice.email }, Config.jwtSecret, { subject: String(alice._id) })
+
+    const app = express()
+    const whoami = (req: express.Request, res: express.Response) => res.json(req.user)
+    app.get('/tasks', requireAuth, whoami)
+    app.get('/tasks/events', requireStreamAuth, whoami)
+    app.post('/tasks/events', requireStreamAuth, whoami)
+    app.use(errorHandler)
+    server = app.listen(0, '127.0.0.1')
+    await new Promise((resolve) => server.once('listening', resolve))
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+  after(() => new Promise<void>((resolve) => server.close(() => resolve())))
+
+  beforeEach(() => {
+    mock.restoreAll()
+    mock.method(console, 'error', () => {}) // the error handler logs every 401
+    mockUsers()
+  })
+
+  const request = async (path: string, init: RequestInit = {}) => {
+    const response = await fetch(`${origin}${path}`, init)
+    return { status: response.status, body: await response.json() }
+  }
+
+  it('accepts a bearer token', async () => {
+    const { status, body } = await request('/tasks', { headers: { Authorization: `Bearer ${token}` } })
+    assert.equal(status, 200)
+    assert.deepEqual(body, { id: String(alice._id), email: alice.email, name: alice.name, via: 'jwt' })
+  })
+
+  it('rejects a missing or invalid token', async () => {
+    assert.equal((await request('/tasks')).status, 401)
+    assert.equal((await request('/tasks', { headers: { Authorization: 'Bearer nope' } })).status, 401)
+  })
+
+  it('ignores ?access_token= on requireAuth routes', async () => {
+    const { status, body } = await request(`/tasks?access_token=${token}`)
+    assert.equal(status, 401)
+    assert.equal(body.message, 'Authentication required')
+  })
+
+  it('accepts ?access_token= on requireStreamAuth routes for GET only', async () => {
+    const get = await request(`/tasks/events?access_token=${token}`)
+    assert.equal(get.status, 200)
+    assert.equal(get.body.id, String(alice._id))
+
+    const post = await request(`/tasks/events?access_token=${token}`, { method: 'POST' })
+    assert.equal(post.status, 401)
+  })
+
+  it('accepts an API key until it is revoked', async () => {
+    const created = await createApiKey(String(alice._id), 'CI')
+    assert.ok(created)
+    const headers = { 'X-API-Key': created.key }
+
+    const before = await request('/tasks', { headers })
+    assert.equal(before.status, 200)
+    assert.equal(before.body.via, 'apiKey')
+    assert.equal(
+      (await request('/tasks', { headers: { Authorization: `Bearer ${created.key}` } })).status,
+      200,
+      'API keys also work as the bearer token',
+    )
+
+    assert.equal(await revokeApiKey(String(alice._id), created.apiKey.id), true)
+    const revoked = await request('/tasks', { headers })
+    assert.equal(revoked.status, 401)
+    assert.equal(revoked.body.message, 'Invalid or expired credentials')
+  })
+})
@@ -0,0 +1,45 @@
+import { NextFunction, Request, Response } from 'express'
+import { API_KEY_PREFIX, verifyApiKey, verifyToken } from '../services/authService'
+import { AuthUser } from '../types'
+import { asyncHandler, HttpError } from '../utils'
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser // set by requireAuth
+    }
+  }
+}
+
+const credentialsOf = (req: Request, allowQueryToken: boolean) => {
+  const bearer = /^Bearer\s+(.+)$/i.exec(req.header('authorization') ?? '')?.[1]
+  const queryToken =
+    allowQueryToken && req.method === 'GET' && typeof req.query.access_token === 'string'
+      ? req.query.access_token
+      : undefined
+  return { apiKey: req.header('x-api-key'), token: bearer ?? queryToken }
+}
+
+const authenticate = (allowQueryToken: boolean) =>
+  asyncHandler(async (req: Request, _res: Response, next: NextFunction) => {
+    const { apiKey, token } = credentialsOf(req, allowQueryToken)
+    let user: AuthUser | null = null
+    if (apiKey) user = await verifyApiKey(apiKey)
+    else if (token?.startsWith(API_KEY_PREFIX)) user = await verifyApiKey(token)
+    else if (token) user = await verifyToken(token)
+
+    if (!user) throw new HttpError(401, apiKey || token ? 'Invalid or expired credentials' : 'Authentication required')
+    req.user = user
+    next()
+  })
+
+/**
+ * Accepts a JWT (`Authorization: Bearer <token>`) or an API key (`X-API-Key: thk_...`, or as the bearer token)
+ */
+export const requireAuth = authenticate(false)
+
+/**
+ * `requireAuth` that also reads `?access_token=`, for SSE streams: EventSource can't set headers.
+ * Use it on those GET routes only, since tokens in URLs end up in logs and browser history.
+ */
+export const requireStreamAuth = authenticate(true)
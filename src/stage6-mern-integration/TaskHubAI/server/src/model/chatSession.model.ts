@@ -6,6 +6,8 @@ export interface ChatSessionModel extends Document {
   title: string
   lastMessageAt: Date
   messageCount: number
+  createdAt: Date
+  updatedAt: Date
 }
 
 const chatSessionSchema = new mongoose.Schema(
@@ -19,4 +21,7 @@ const chatSessionSchema = new mongoose.Schema(
   { timestamps: true },
 )
 
+// Session lists show a user's most recent chats first
+chatSessionSchema.index({ userId: 1, lastMessageAt: -1 })
+
 export const ChatSession = mongoose.model<ChatSessionModel>('ChatSession', chatSessionSchema)
@@ -1,2 +1,4 @@
 export * from './chatSession.model'
 export * from './message.model'
+export * from './task.model'
+export * from './user.model'
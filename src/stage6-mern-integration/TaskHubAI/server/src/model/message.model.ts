@@ -4,6 +4,7 @@ export interface ChatMessageModel extends Document {
   sessionId: string
   role: 'human' | 'ai'
   content: string
+  createdAt: Date
 }
 
 const messageSchema = new Schema<ChatMessageModel>(
@@ -15,4 +16,6 @@ const messageSchema = new Schema<ChatMessageModel>(
   { timestamps: { createdAt: true, updatedAt: false } },
 )
 
+messageSchema.index({ sessionId: 1, createdAt: 1 })
+
 export const ChatMessage = mongoose.model<ChatMessageModel>('ChatMessage', messageSchema)
@@ -0,0 +1,30 @@
+import mongoose, { Schema, Document } from 'mongoose'
+import { TASK_STATUSES, TaskStatus } from '../types'
+
+export interface TaskModel extends Document {
+  userId: string
+  title: string
+  description?: string
+  status: TaskStatus
+  result?: any
+  attempts: number
+  createdAt: Date
+  updatedAt: Date
+}
+
+const taskSchema = new Schema<TaskModel>(
+  {
+    userId: { type: String, required: true },
+    title: { type: String, required: true, trim: true },
+    description: String,
+    status: { type: String, enum: TASK_STATUSES, default: 'pending' },
+    result: Schema.Types.Mixed,
+    attempts: { type: Number, default: 0 },
+  },
+  { timestamps: true },
+)
+
+// Listing filters by owner and status and sorts by date
+taskSchema.index({ userId: 1, status: 1, createdAt: -1 })
+
+export const Task = mongoose.model<TaskModel>('Task', taskSchema)
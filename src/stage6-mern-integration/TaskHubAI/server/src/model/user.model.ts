@@ -0,0 +1,44 @@
+import mongoose, { Schema, Document, Types } from 'mongoose'
+
+export interface ApiKeyModel {
+  _id: Types.ObjectId
+  name: string
+  prefix: string
+  keyHash: string // SHA-256 of the key; the key itself is only shown once
+  createdAt: Date
+  lastUsedAt?: Date
+}
+
+export interface UserModel extends Document {
+  email: string
+  passwordHash: string
+  name?: string
+  apiKeys: Types.DocumentArray<ApiKeyModel>
+  createdAt: Date
+  updatedAt: Date
+}
+
+const apiKeySchema = new Schema<ApiKeyModel>(
+  {
+    name: { type: String, required: true, trim: true },
+    prefix: { type: String, required: true },
+    keyHash: { type: String, required: true },
+    lastUsedAt: Date,
+  },
+  { timestamps: { createdAt: true, updatedAt: false } },
+)
+
+const userSchema = new Schema<UserModel>(
+  {
+    email: { type: String, required: true, unique: true, lowercase: true, trim: true },
+    passwordHash: { type: String, required: true },
+    name: { type: String, trim: true },
+    apiKeys: [apiKeySchema],
+  },
+  { timestamps: true },
+)
+
+// API key requests look the user up by key hash
+userSchema.index({ 'apiKeys.keyHash': 1 })
+
+export const User = mongoose.model<UserModel>('User', userSchema)
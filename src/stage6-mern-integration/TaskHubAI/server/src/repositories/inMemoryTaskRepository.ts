@@ -0,0 +1,56 @@
+import { randomUUID } from 'crypto'
+import { Paginated, Task, TaskListQuery } from '../types'
+import { toPaginated } from '../utils/pagination'
+import { NewTask, TaskRepository, TaskUpdate } from './taskRepository'
+
+/**
+ * Array-backed repository with the same filtering, sorting and paging as the Mongo one.
+ * Data lives only as long as the instance.
+ */
+export class InMemoryTaskRepository implements TaskRepository {
+  private tasks: Task[] = []
+
+  async create(task: NewTask) {
+    const now = new Date()
+    const created: Task = { id: randomUUID(), ...task, status: 'pending', attempts: 0, createdAt: now, updatedAt: now }
+    this.tasks.push(created)
+    return { ...created }
+  }
+
+  async findById(id: string) {
+    const task = this.tasks.find((t) => t.id === id)
+    return task ? { ...task } : null
+  }
+
+  async list(query: TaskListQuery): Promise<Paginated<Task>> {
+    const direction = query.sortOrder === 'asc' ? 1 : -1
+    const compare = (a: Task, b: Task) => {
+      const [x, y] = [a[query.sortBy], b[query.sortBy]]
+      return x < y ? -direction : x > y ? direction : 0
+    }
+    // Array.sort is stable, so ties keep insertion order like Mongo's _id tie-break
+    const ordered = [...this.tasks]
+      .filter((t) => (!query.userId || t.userId === query.userId) && (!query.status || t.status === query.status))
+      .sort((a, b) => compare(a, b) || (this.tasks.indexOf(a) - this.tasks.indexOf(b)) * direction)
+    const start = (query.page - 1) * query.limit
+    return toPaginated(
+      ordered.slice(start, start + query.limit).map((t) => ({ ...t })),
+      ordered.length,
+      query,
+    )
+  }
+
+  async update(id: string, updates: TaskUpdate) {
+    const idx = this.tasks.findIndex((t) => t.id === id)
+    if (idx === -1) return null
+    this.tasks[idx] = { ...this.tasks[idx], ...updates, updatedAt: new Date() }
+    return { ...this.tasks[idx] }
+  }
+
+  async delete(id: string) {
+    const idx = this.tasks.findIndex((t) => t.id === id)
+    if (idx === -1) return false
+    this.tasks.splice(idx, 1)
+    return true
+  }
+}
@@ -0,0 +1,3 @@
+export * from './taskRepository'
+export * from './mongoTaskRepository'
+export * from './inMemoryTaskRepository'
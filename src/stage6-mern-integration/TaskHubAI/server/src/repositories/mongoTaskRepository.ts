@@ -0,0 +1,57 @@
+import mongoose from 'mongoose'
+import { Task as TaskCollection, TaskModel } from '../model'
+import { Paginated, Task, TaskListQuery } from '../types'
+import { toPaginated } from '../utils/pagination'
+import { NewTask, TaskRepository, TaskUpdate } from './taskRepository'
+
+const toTask = (doc: TaskModel): Task => ({
+  id: String(doc._id),
+  userId: doc.userId,
+  title: doc.title,
+  description: doc.description,
+  status: doc.status,
+  result: doc.result,
+  attempts: doc.attempts ?? 0,
+  createdAt: doc.createdAt,
+  updatedAt: doc.updatedAt,
+})
+
+export class MongoTaskRepository implements TaskRepository {
+  async create(task: NewTask) {
+    return toTask(await TaskCollection.create(task))
+  }
+
+  async findById(id: string) {
+    // Malformed ids can't match anything; don't let them surface as CastErrors
+    if (!mongoose.isValidObjectId(id)) return null
+    const doc = await TaskCollection.findById(id)
+    return doc ? toTask(doc) : null
+  }
+
+  async list(query: TaskListQuery): Promise<Paginated<Task>> {
+    const filter = {
+      ...(query.userId && { userId: query.userId }),
+      ...(query.status && { status: query.status }),
+    }
+    const direction = query.sortOrder === 'asc' ? 1 : -1
+    const [docs, total] = await Promise.all([
+      TaskCollection.find(filter)
+        .sort({ [query.sortBy]: direction, _id: direction }) // _id keeps pages stable on ties
+        .skip((query.page - 1) * query.limit)
+        .limit(query.limit),
+      TaskCollection.countDocuments(filter),
+    ])
+    return toPaginated(docs.map(toTask), total, query)
+  }
+
+  async update(id: string, updates: TaskUpdate) {
+    if (!mongoose.isValidObjectId(id)) return null
+    const doc = await TaskCollection.findByIdAndUpdate(id, updates, { new: true, runValidators: true })
+    return doc ? toTask(doc) : null
+  }
+
+  async delete(id: string) {
+    if (!mongoose.isValidObjectId(id)) return false
+    return (await TaskCollection.deleteOne({ _id: id })).deletedCount > 0
+  }
+}
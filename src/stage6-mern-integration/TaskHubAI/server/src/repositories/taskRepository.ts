@@ -0,0 +1,16 @@
+import { Paginated, Task, TaskListQuery } from '../types'
+
+export type NewTask = Pick<Task, 'userId' | 'title' | 'description'>
+export type TaskUpdate = Partial<Pick<Task, 'title' | 'description' | 'status' | 'result' | 'attempts'>>
+
+/**
+ * Storage for tasks. `MongoTaskRepository` is used by the server; `InMemoryTaskRepository`
+ * behaves the same without a database, for tests.
+ */
+export interface TaskRepository {
+  create(task: NewTask): Promise<Task>
+  findById(id: string): Promise<Task | null>
+  list(query: TaskListQuery): Promise<Paginated<Task>>
+  update(id: string, updates: TaskUpdate): Promise<Task | null>
+  delete(id: string): Promise<boolean>
+}
@@ -0,0 +1,15 @@
+import { Router } from 'express'
+import { createApiKey, listApiKeys, login, me, revokeApiKey, signup } from '../controllers/auth.controller'
+import { requireAuth } from '../middleware/auth'
+import { asyncHandler } from '../utils'
+
+const router = Router()
+
+router.post('/signup', asyncHandler(signup))
+router.post('/login', asyncHandler(login))
+router.get('/me', requireAuth, asyncHandler(me))
+router.get('/api-keys', requireAuth, asyncHandler(listApiKeys))
+router.post('/api-keys', requireAuth, asyncHandler(createApiKey))
+router.delete('/api-keys/:id', requireAuth, asyncHandler(revokeApiKey))
+
+export default router
@@ -1,11 +1,16 @@
 import express from 'express'
+import { requireAuth } from '../middleware/auth'
+import authRoutes from './auth.routes'
 import langchainRoutes from './langchain.routes'
+import sessionRoutes from './session.routes'
 import taskRoutes from './task.routes'
 
 const router = express.Router()
 
-router.use('/langchain', langchainRoutes)
-router.use('/tasks', taskRoutes)
+router.use('/auth', authRoutes)
+router.use('/langchain', requireAuth, langchainRoutes)
+router.use('/sessions', requireAuth, sessionRoutes)
+router.use('/tasks', taskRoutes) // authenticates per route, for the event stream
 router.get('/health', (_, res) => res.json({ status: 'ok' }))
 
 export default router
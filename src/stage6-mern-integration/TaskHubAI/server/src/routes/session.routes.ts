@@ -0,0 +1,12 @@
+import { Router } from 'express'
+import { list, messages, remove, rename } from '../controllers/session.controller'
+import { asyncHandler } from '../utils'
+
+const router = Router()
+
+router.get('/', asyncHandler(list))
+router.get('/:id/messages', asyncHandler(messages))
+router.patch('/:id', asyncHandler(rename))
+router.delete('/:id', asyncHandler(remove))
+
+export default router
@@ -1,12 +1,16 @@
-import { asyncHandler } from './../utils/asyncHandler'
 import { Router } from 'express'
-import { create, list, remove, run } from '../controllers/task.controller'
+import { cancel, create, events, list, remove, run } from '../controllers/task.controller'
+import { requireAuth, requireStreamAuth } from '../middleware/auth'
+import { asyncHandler } from '../utils'
 
 const router = Router()
 
+router.get('/events', requireStreamAuth, events)
+router.use(requireAuth)
 router.get('/', asyncHandler(list))
 router.post('/', asyncHandler(create))
 router.post('/:id/run', asyncHandler(run))
+router.post('/:id/cancel', asyncHandler(cancel))
 router.delete('/:id', asyncHandler(remove))
 
 export default router
@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict'
+import { afterEach, before, describe, it, mock } from 'node:test'
+import { Types } from 'mongoose'
+import { Config } from '../config/env'
+import { User } from '../model'
+import { signup } from './authService'
+
+describe('signup', () => {
+  before(() => {
+    Config.jwtSecret = 'test-secret'
+  })
+  afterEach(() => mock.restoreAll())
+
+  it('creates the user and returns a token', async () => {
+    mock.method(User, 'exists', async () => null)
+    mock.method(User, 'create', async (doc: any) => ({ _id: new Types.ObjectId(), ...doc }))
+
+    const result = await signup('bob@example.com', 'correct horse', 'Bob')
+    assert.ok(result)
+    assert.equal(result.user.email, 'bob@example.com')
+    assert.equal(result.user.via, 'jwt')
+    assert.ok(result.token)
+  })
+
+  it('returns null when the email is already registered', async () => {
+    mock.method(User, 'exists', async () => ({ _id: new Types.ObjectId() }))
+    const create = mock.method(User, 'create', async () => assert.fail('should not create'))
+
+    assert.equal(await signup('bob@example.com', 'correct horse'), null)
+    assert.equal(create.mock.callCount(), 0)
+  })
+
+  it('returns null when a concurrent signup wins the unique index', async () => {
+    // Both requests passed the exists() check; MongoDB rejects the second insert
+    mock.method(User, 'exists', async () => null)
+    mock.method(User, 'create', async () => {
+      throw Object.assign(new Error('E11000 duplicate key error collection: users index: email_1'), { code: 11000 })
+    })
+
+    assert.equal(await signup('bob@example.com', 'correct horse'), null)
+  })
+
+  it('still throws other database errors', async () => {
+    mock.method(User, 'exists', async () => null)
+    mock.method(User, 'create', async () => {
+      throw new Error('connection lost')
+    })
+
+    await assert.rejects(signup('bob@example.com', 'correct horse'), /connection lost/)
+  })
+})
@@ -0,0 +1,115 @@
+import bcrypt from 'bcryptjs'
+import { createHash, randomBytes } from 'crypto'
+import jwt, { SignOptions } from 'jsonwebtoken'
+import mongoose from 'mongoose'
+import { Config } from '../config/env'
+import { ApiKeyModel, User, UserModel } from '../model'
+import { ApiKeySummary, AuthUser } from '../types'
+
+const BCRYPT_ROUNDS = 10
+export const API_KEY_PREFIX = 'thk_'
+
+const DUPLICATE_KEY_ERROR = 11000
+
+const hashApiKey = (key: string) => createHash('sha256').update(key).digest('hex')
+
+const jwtSecret = () => {
+  if (!Config.jwtSecret) throw new Error('Missing JWT_SECRET in environment variables')
+  return Config.jwtSecret
+}
+
+const toAuthUser = (user: UserModel, via: AuthUser['via']): AuthUser => ({
+  id: String(user._id),
+  email: user.email,
+  name: user.name,
+  via,
+})
+
+const toApiKeySummary = (apiKey: ApiKeyModel): ApiKeySummary => ({
+  id: String(apiKey._id),
+  name: apiKey.name,
+  prefix: apiKey.prefix,
+  createdAt: apiKey.createdAt,
+  lastUsedAt: apiKey.lastUsedAt,
+})
+
+const issueToken = (user: AuthUser) =>
+  jwt.sign({ email: user.email }, jwtSecret(), {
+    subject: user.id,
+    expiresIn: Config.jwtExpiresIn as SignOptions['expiresIn'],
+  })
+
+/**
+ * Returns null if the email is already registered
+ */
+export const signup = async (email: string, password: string, name?: string) => {
+  if (await User.exists({ email: email.toLowerCase() })) return null
+  let created: UserModel
+  try {
+    created = await User.create({ email, name, passwordHash: await bcrypt.hash(password, BCRYPT_ROUNDS) })
+  } catch (err: any) {
+    // Another signup with the same email got past the check above first
+    if (err?.code === DUPLICATE_KEY_ERROR) return null
+    throw err
+  }
+  const user = toAuthUser(created, 'jwt')
+  return { user, token: issueToken(user) }
+}
+
+/**
+ * Returns null for an unknown email or a wrong password alike
+ */
+export const login = async (email: string, password: string) => {
+  const found = await User.findOne({ email: email.toLowerCase() })
+  if (!found || !(await bcrypt.compare(password, found.passwordHash))) return null
+  const user = toAuthUser(found, 'jwt')
+  return { user, token: issueToken(user) }
+}
+
+export const verifyToken = async (token: string): Promise<AuthUser | null> => {
+  let userId: string | undefined
+  try {
+    userId = (jwt.verify(token, jwtSecret()) as jwt.JwtPayload).sub
+  } catch (err) {
+    if (err instanceof jwt.JsonWebTokenError) return null // bad signature, expired, malformed
+    throw err
+  }
+  // The account may have been deleted since the token was issued
+  const user = userId && mongoose.isValidObjectId(userId) ? await User.findById(userId) : null
+  return user ? toAuthUser(user, 'jwt') : null
+}
+
+export const verifyApiKey = async (key: string): Promise<AuthUser | null> => {
+  if (!key.startsWith(API_KEY_PREFIX)) return null
+  const user = await User.findOneAndUpdate(
+    { 'apiKeys.keyHash': hashApiKey(key) },
+    { $set: { 'apiKeys.$.lastUsedAt': new Date() } },
+    { new: true },
+  )
+  return user ? toAuthUser(user, 'apiKey') : null
+}
+
+/**
+ * The returned `key` is the only time the full key is available
+ */
+export const createApiKey = async (userId: string, name: string) => {
+  const key = API_KEY_PREFIX + randomBytes(24).toString('base64url')
+  const user = await User.findByIdAndUpdate(
+    userId,
+    { $push: { apiKeys: { name, prefix: key.slice(0, API_KEY_PREFIX.length + 6), keyHash: hashApiKey(key) } } },
+    { new: true },
+  )
+  if (!user) return null
+  return { key, apiKey: toApiKeySummary(user.apiKeys[user.apiKeys.length - 1]) }
+}
+
+export const listApiKeys = async (userId: string) => {
+  const user = await User.findById(userId)
+  return user ? user.apiKeys.map(toApiKeySummary) : []
+}
+
+export const revokeApiKey = async (userId: string, keyId: string) => {
+  if (!mongoose.isValidObjectId(keyId)) return false
+  const { modifiedCount } = await User.updateOne({ _id: userId }, { $pull: { apiKeys: { _id: keyId } } })
+  return modifiedCount > 0
+}
@@ -1,15 +1,38 @@
-import { ChatMessage, ChatSession, ChatSessionModel } from '../model'
+import { generateSessionTitle } from '../langchainHelper/chains/sessionTitleChain'
+import { ChatMessage, ChatMessageModel, ChatSession, ChatSessionModel } from '../model'
+import { ChatSessionSummary, PageQuery, Paginated, SessionListQuery, SessionMessage } from '../types'
+import { toPaginated } from '../utils'
+
+// Replaced by a generated title after the first answer
+export const DEFAULT_SESSION_TITLE = 'New Chat'
+
+const toSummary = (session: ChatSessionModel): ChatSessionSummary => ({
+  id: session.sessionId,
+  userId: session.userId,
+  title: session.title,
+  messageCount: session.messageCount,
+  lastMessageAt: session.lastMessageAt,
+  createdAt: session.createdAt,
+  updatedAt: session.updatedAt,
+})
+
+const toMessage = (message: ChatMessageModel): SessionMessage => ({
+  id: String(message._id),
+  role: message.role,
+  content: message.content,
+  createdAt: message.createdAt,
+})
 
 /**
  * Find or create a chat session.
  */
-export const findOrCreateSession = async (sessionId: string, userId?: string) => {
+export const findOrCreateSession = async (sessionId: string, userId: string) => {
   let session = await ChatSession.findOne({ sessionId })
   if (!session) {
     session = await ChatSession.create({
       sessionId,
-      userId: userId || 'anonymous',
-      title: 'New Chat',
+      userId,
+      title: DEFAULT_SESSION_TITLE,
       lastMessageAt: new Date(),
     })
   }
@@ -38,3 +61,64 @@ export const saveMessage = async (session: ChatSessionModel, role: 'human' | 'ai
 export const getSessionMessages = async (sessionId: string) => {
   return ChatMessage.find({ sessionId }).sort({ createdAt: 1 }).lean()
 }
+
+/**
+ * Sessions, most recently active first
+ */
+export const listSessions = async (query: SessionListQuery): Promise<Paginated<ChatSessionSummary>> => {
+  const filter = query.userId ? { userId: query.userId } : {}
+  const [sessions, total] = await Promise.all([
+    ChatSession.find(filter)
+      .sort({ lastMessageAt: -1, _id: -1 })
+      .skip((query.page - 1) * query.limit)
+      .limit(query.limit),
+    ChatSession.countDocuments(filter),
+  ])
+  return toPaginated(sessions.map(toSummary), total, query)
+}
+
+export const getSession = async (sessionId: string, userId: string) => {
+  const session = await ChatSession.findOne({ sessionId, userId })
+  return session ? toSummary(session) : null
+}
+
+/**
+ * One page of a session's messages, oldest first
+ */
+export const getSessionMessagesPage = async (
+  sessionId: string,
+  query: PageQuery,
+): Promise<Paginated<SessionMessage>> => {
+  const [messages, total] = await Promise.all([
+    ChatMessage.find({ sessionId })
+      .sort({ createdAt: 1, _id: 1 })
+      .skip((query.page - 1) * query.limit)
+      .limit(query.limit),
+    ChatMessage.countDocuments({ sessionId }),
+  ])
+  return toPaginated(messages.map(toMessage), total, query)
+}
+
+export const renameSession = async (sessionId: string, userId: string, title: string) => {
+  const session = await ChatSession.findOneAndUpdate({ sessionId, userId }, { title }, { new: true })
+  return session ? toSummary(session) : null
+}
+
+/**
+ * Delete a session together with its messages
+ */
+export const deleteSession = async (sessionId: string, userId: string) => {
+  const { deletedCount } = await ChatSession.deleteOne({ sessionId, userId })
+  if (deletedCount > 0) await ChatMessage.deleteMany({ sessionId })
+  return deletedCount > 0
+}
+
+/**
+ * Give a session that still has the default title one generated from its first exchange.
+ * A rename that lands while the title is being generated wins.
+ */
+export const autoTitleSession = async (session: ChatSessionModel, question: string, answer: string) => {
+  if (session.title !== DEFAULT_SESSION_TITLE) return
+  const title = await generateSessionTitle(question, answer)
+  if (title) await ChatSession.updateOne({ sessionId: session.sessionId, title: DEFAULT_SESSION_TITLE }, { title })
+}
@@ -0,0 +1,20 @@
+import { EventEmitter } from 'events'
+import { TaskEvent } from '../types'
+
+const emitter = new EventEmitter()
+// One listener per open SSE connection
+emitter.setMaxListeners(0)
+
+export const publishTaskEvent = (event: TaskEvent) => {
+  emitter.emit('task', event)
+}
+
+/**
+ * Returns the unsubscribe function
+ */
+export const subscribeToTaskEvents = (listener: (event: TaskEvent) => void) => {
+  emitter.on('task', listener)
+  return () => {
+    emitter.off('task', listener)
+  }
+}
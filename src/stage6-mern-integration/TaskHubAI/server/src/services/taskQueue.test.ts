@@ -0,0 +1,83 @@
+import assert from 'node:assert/strict'
+import { beforeEach, describe, it } from 'node:test'
+import { setTimeout as sleep } from 'node:timers/promises'
+import { InMemoryTaskRepository, TaskUpdate } from '../repositories'
+import { TaskQueue } from './taskQueue'
+import * as taskService from './taskService'
+
+const WRITE_MS = 30
+
+/**
+ * Writes take a while, like a round trip to MongoDB, so cancel() can land while one is in flight
+ */
+class SlowTaskRepository extends InMemoryTaskRepository {
+  onUpdate?: (id: string, updates: TaskUpdate) => void
+  writeMs = (_updates: TaskUpdate) => WRITE_MS
+
+  async update(id: string, updates: TaskUpdate) {
+    this.onUpdate?.(id, updates)
+    await sleep(this.writeMs(updates))
+    return super.update(id, updates)
+  }
+}
+
+describe('TaskQueue cancel', () => {
+  let repository: SlowTaskRepository
+
+  beforeEach(() => {
+    repository = new SlowTaskRepository()
+    taskService.setTaskRepository(repository)
+  })
+
+  it('stops a task cancelled while its retry is being recorded', async () => {
+    let runs = 0
+    const queue = new TaskQueue(
+      async () => {
+        runs++
+        await sleep(1000)
+      },
+      { concurrency: 1, maxRetries: 2, backoffMs: 10, timeoutMs: 20 },
+    )
+    const { id } = await taskService.createTask('user-1', 'Summarize')
+    let cancelling: Promise<unknown> | undefined
+    repository.onUpdate = (_id, updates) => {
+      if (updates.status === 'queued' && updates.attempts === undefined) cancelling ??= queue.cancel(id)
+    }
+
+    await queue.enqueue(id)
+    await sleep(WRITE_MS * 2 + 20)
+    assert.ok(cancelling, 'the attempt timed out and started its retry write')
+    assert.equal(((await cancelling) as { status: string }).status, 'cancelled')
+    await sleep(WRITE_MS * 3 + 50)
+
+    assert.equal(runs, 1)
+    assert.equal((await taskService.getTask(id))?.status, 'cancelled')
+    assert.equal(queue.has(id), false)
+  })
+
+  it('keeps a task cancelled while it is being marked running', async () => {
+    let runs = 0
+    const queue = new TaskQueue(
+      async () => {
+        runs++
+        return 'done'
+      },
+      { concurrency: 1, maxRetries: 0, backoffMs: 10, timeoutMs: 1000 },
+    )
+    const { id } = await taskService.createTask('user-1', 'Summarize')
+    let cancelling: Promise<unknown> | undefined
+    repository.onUpdate = (_id, updates) => {
+      if (updates.status === 'running') cancelling ??= queue.cancel(id)
+    }
+    // The cancel write lands before the running one
+    repository.writeMs = (updates) => (updates.status === 'running' ? WRITE_MS * 2 : WRITE_MS)
+
+    await queue.enqueue(id)
+    await cancelling
+    await sleep(WRITE_MS * 4)
+
+    assert.equal(runs, 0)
+    assert.equal((await taskService.getTask(id))?.status, 'cancelled')
+    assert.equal(queue.has(id), false)
+  })
+})
@@ -0,0 +1,187 @@
+import { Config } from '../config/env'
+import { runTaskChain } from '../langchainHelper/chains/taskChain'
+import { TaskUpdate } from '../repositories'
+import { Task } from '../types'
+import { publishTaskEvent } from './taskEvents'
+import * as taskService from './taskService'
+
+export interface TaskQueueOptions {
+  concurrency: number // tasks running at once
+  maxRetries: number // extra attempts after a failure or timeout
+  backoffMs: number // delay before the first retry, doubled on each further one
+  timeoutMs: number // per attempt
+}
+
+export type TaskHandler = (task: Task, signal: AbortSignal) => Promise<unknown>
+
+const CANCELLED = 'cancelled'
+const MAX_BACKOFF_MS = 60_000
+
+// Rejects as soon as the signal aborts, even if the handler ignores it
+const untilAborted = <T>(promise: Promise<T>, signal: AbortSignal) =>
+  new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason instanceof Error ? signal.reason : new Error(String(signal.reason)))
+    if (signal.aborted) return onAbort()
+    signal.addEventListener('abort', onAbort, { once: true })
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort))
+  })
+
+/**
+ * In-process worker queue for task runs. Status goes pending → queued → running → completed/failed/cancelled;
+ * failed attempts go back to queued until the retries run out.
+ */
+export class TaskQueue {
+  private enqueuing = new Set<string>()
+  private waiting: { id: string; attempt: number }[] = []
+  private running = new Map<string, AbortController>()
+  // Running tasks cancel() has been called for; an aborted signal keeps its first reason, so it can't tell
+  private cancelled = new Set<string>()
+  private retryTimers = new Map<string, NodeJS.Timeout>()
+
+  constructor(
+    private handler: TaskHandler,
+    private options: TaskQueueOptions,
+  ) {}
+
+  /**
+   * Whether the task is waiting, running or waiting to retry
+   */
+  has(id: string) {
+    return (
+      this.enqueuing.has(id) ||
+      this.waiting.some((job) => job.id === id) ||
+      this.running.has(id) ||
+      this.retryTimers.has(id)
+    )
+  }
+
+  async enqueue(id: string) {
+    // Claim the id before the write so concurrent run requests can't both queue it
+    this.enqueuing.add(id)
+    try {
+      const task = await taskService.updateTask(id, { status: 'queued', attempts: 0 })
+      if (!task) return task
+      if (this.enqueuing.has(id)) {
+        this.push(id, 1)
+        return task
+      }
+      // cancel() dropped the claim during the write, and its own write may have landed first
+      return await taskService.updateTask(id, { status: 'cancelled' })
+    } finally {
+      this.enqueuing.delete(id)
+    }
+  }
+
+  /**
+   * Drop a waiting task or abort a running one. Returns null if the task isn't in the queue.
+   */
+  async cancel(id: string) {
+    if (!this.has(id)) return null
+    this.enqueuing.delete(id)
+    this.waiting = this.waiting.filter((job) => job.id !== id)
+    clearTimeout(this.retryTimers.get(id))
+    this.retryTimers.delete(id)
+    if (this.running.has(id)) this.cancelled.add(id)
+    this.running.get(id)?.abort(CANCELLED)
+    return await taskService.updateTask(id, { status: 'cancelled' })
+  }
+
+  /**
+   * Re-queue tasks a previous server process left queued or running
+   */
+  async recover() {
+    const ids: string[] = []
+    for (const status of ['queued', 'running'] as const) {
+      for (let page = 1; ; page++) {
+        const { items, totalPages } = await taskService.listTasks({
+          page,
+          limit: 100,
+          status,
+          sortBy: 'createdAt',
+          sortOrder: 'asc',
+        })
+        ids.push(...items.map((t) => t.id))
+        if (page >= totalPages) break
+      }
+    }
+    for (const id of ids) await this.enqueue(id)
+    if (ids.length > 0) console.log(`🔁 Re-queued ${ids.length} unfinished tasks`)
+  }
+
+  private push(id: string, attempt: number) {
+    this.waiting.push({ id, attempt })
+    this.drain()
+  }
+
+  private drain() {
+    while (this.running.size < this.options.concurrency && this.waiting.length > 0) {
+      const job = this.waiting.shift()!
+      const controller = new AbortController()
+      this.running.set(job.id, controller)
+      this.execute(job.id, job.attempt, controller)
+        .catch((err) => console.error(`❌ Task ${job.id} bookkeeping failed:`, err.message))
+        .finally(() => {
+          this.running.delete(job.id)
+          this.cancelled.delete(job.id)
+          this.drain()
+        })
+    }
+  }
+
+  /**
+   * Status write from a running task. Skipped once the task is cancelled, and if cancel() comes in
+   * during the write, its own write may land first, so `cancelled` is written again. Null means stop.
+   */
+  private async write(id: string, updates: TaskUpdate) {
+    if (this.cancelled.has(id)) return null
+    const task = await taskService.updateTask(id, updates)
+    if (!this.cancelled.has(id)) return task
+    await taskService.updateTask(id, { status: 'cancelled' })
+    return null
+  }
+
+  private async execute(id: string, attempt: number, controller: AbortController) {
+    const { signal } = controller
+    // Deleted or cancelled while waiting for a worker
+    const task = await this.write(id, { status: 'running', attempts: attempt })
+    if (!task) return
+
+    const timer = setTimeout(
+      () => controller.abort(new Error(`Timed out after ${this.options.timeoutMs}ms`)),
+      this.options.timeoutMs,
+    )
+    try {
+      const output = await untilAborted(this.handler(task, signal), signal)
+      await this.write(id, { status: 'completed', result: output })
+    } catch (err: any) {
+      // cancel() has already recorded the status
+      if (this.cancelled.has(id)) return
+
+      if (attempt > this.options.maxRetries) {
+        await this.write(id, { status: 'failed', result: err.message })
+        return
+      }
+      const delay = Math.min(this.options.backoffMs * 2 ** (attempt - 1), MAX_BACKOFF_MS)
+      console.warn(`⚠️ Task ${id} attempt ${attempt} failed (${err.message}), retrying in ${delay}ms`)
+      if (!(await this.write(id, { status: 'queued', result: err.message }))) return
+      this.retryTimers.set(
+        id,
+        setTimeout(() => {
+          this.retryTimers.delete(id)
+          this.push(id, attempt + 1)
+        }, delay),
+      )
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+}
+
+export const taskQueue = new TaskQueue(
+  (task, signal) =>
+    runTaskChain(task.description || '', {
+      signal,
+      onToken: (chunk) => publishTaskEvent({ type: 'output', userId: task.userId, id: task.id, chunk }),
+    }),
+  Config.taskQueue,
+)
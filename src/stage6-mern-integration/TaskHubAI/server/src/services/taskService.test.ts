@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict'
+import { beforeEach, describe, it } from 'node:test'
+import { InMemoryTaskRepository } from '../repositories'
+import { Task, TaskListQuery } from '../types'
+import * as taskService from './taskService'
+
+const query = (overrides: Partial<TaskListQuery> = {}): TaskListQuery => ({
+  page: 1,
+  limit: 20,
+  userId: 'alice',
+  sortBy: 'createdAt',
+  sortOrder: 'desc',
+  ...overrides,
+})
+
+const titles = (tasks: Task[]) => tasks.map((t) => t.title)
+
+describe('taskService with InMemoryTaskRepository', () => {
+  let ids: Record<string, string>
+
+  beforeEach(async () => {
+    taskService.setTaskRepository(new InMemoryTaskRepository())
+    ids = {}
+    for (const title of ['Draft report', 'Book flights', 'Clean inbox', 'Email Bob', 'Archive notes']) {
+      ids[title] = (await taskService.createTask('alice', title)).id
+    }
+    ids['Bob private'] = (await taskService.createTask('bob', 'Bob private')).id
+    await taskService.updateTask(ids['Book flights'], { status: 'completed' })
+    await taskService.updateTask(ids['Email Bob'], { status: 'completed' })
+  })
+
+  it('lists only the user’s tasks, newest first by default', async () => {
+    const { items, total } = await taskService.listTasks(query())
+    assert.equal(total, 5)
+    assert.deepEqual(titles(items), ['Archive notes', 'Email Bob', 'Clean inbox', 'Book flights', 'Draft report'])
+  })
+
+  it('filters by status', async () => {
+    const completed = await taskService.listTasks(query({ status: 'completed' }))
+    assert.deepEqual(titles(completed.items), ['Email Bob', 'Book flights'])
+    assert.equal(completed.total, 2)
+
+    const pending = await taskService.listTasks(query({ status: 'pending' }))
+    assert.deepEqual(titles(pending.items), ['Archive notes', 'Clean inbox', 'Draft report'])
+  })
+
+  it('sorts by the requested field and order', async () => {
+    const asc = await taskService.listTasks(query({ sortBy: 'title', sortOrder: 'asc' }))
+    assert.deepEqual(titles(asc.items), ['Archive notes', 'Book flights', 'Clean inbox', 'Draft report', 'Email Bob'])
+
+    const byStatus = await taskService.listTasks(query({ sortBy: 'status', sortOrder: 'asc' }))
+    assert.deepEqual(titles(byStatus.items), [
+      'Book flights',
+      'Email Bob',
+      'Draft report',
+      'Clean inbox',
+      'Archive notes',
+    ])
+  })
+
+  it('pages through results with totalPages', async () => {
+    const pages = await Promise.all(
+      [1, 2, 3, 4].map((page) => taskService.listTasks(query({ page, limit: 2, sortBy: 'title', sortOrder: 'asc' }))),
+    )
+    assert.deepEqual(
+      pages.map((p) => titles(p.items)),
+      [['Archive notes', 'Book flights'], ['Clean inbox', 'Draft report'], ['Email Bob'], []],
+    )
+    pages.forEach((p, i) => {
+      assert.equal(p.page, i + 1)
+      assert.equal(p.limit, 2)
+      assert.equal(p.total, 5)
+      assert.equal(p.totalPages, 3)
+    })
+  })
+
+  it('hides other users’ tasks from getTask and deleteTask', async () => {
+    const bobTask = ids['Bob private']
+    assert.equal(await taskService.getTask(bobTask, 'alice'), null)
+    assert.equal((await taskService.getTask(bobTask, 'bob'))?.title, 'Bob private')
+    assert.equal((await taskService.getTask(bobTask))?.userId, 'bob', 'no userId means no owner check')
+    assert.equal(await taskService.getTask('missing', 'alice'), null)
+
+    assert.equal(await taskService.deleteTask(bobTask, 'alice'), false)
+    assert.ok(await taskService.getTask(bobTask, 'bob'))
+    assert.equal(await taskService.deleteTask(bobTask, 'bob'), true)
+    assert.equal(await taskService.getTask(bobTask), null)
+  })
+})
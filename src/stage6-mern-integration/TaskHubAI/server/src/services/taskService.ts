@@ -1,35 +1,43 @@
-import { Task } from '../types/task'
-import { v4 as uuid } from 'uuid'
-
-const tasks: Task[] = []
-
-export const createTask = (title: string, description?: string): Task => {
-  const task: Task = {
-    id: uuid(),
-    title,
-    description,
-    status: 'pending',
-    createdAt: new Date(),
-    updatedAt: new Date(),
-  }
-  tasks.push(task)
+import { MongoTaskRepository, TaskRepository, TaskUpdate } from '../repositories'
+import { TaskListQuery } from '../types/task'
+import { publishTaskEvent } from './taskEvents'
+
+let repository: TaskRepository = new MongoTaskRepository()
+
+/**
+ * Swap the storage backend, e.g. `setTaskRepository(new InMemoryTaskRepository())` in tests
+ */
+export const setTaskRepository = (repo: TaskRepository) => {
+  repository = repo
+}
+
+// Writes publish an event for the SSE stream at GET /tasks/events
+
+export const createTask = async (userId: string, title: string, description?: string) => {
+  const task = await repository.create({ userId, title, description })
+  publishTaskEvent({ type: 'created', userId, task })
   return task
 }
 
-export const listTasks = () => tasks
+export const listTasks = (query: TaskListQuery) => repository.list(query)
 
-export const getTask = (id: string) => tasks.find((t) => t.id === id)
+/**
+ * With a `userId`, someone else's task comes back as null, same as a missing one
+ */
+export const getTask = async (id: string, userId?: string) => {
+  const task = await repository.findById(id)
+  return task && (!userId || task.userId === userId) ? task : null
+}
 
-export const updateTask = (id: string, updates: Partial<Task>) => {
-  const idx = tasks.findIndex((t) => t.id === id)
-  if (idx === -1) return null
-  tasks[idx] = { ...tasks[idx], ...updates, updatedAt: new Date() }
-  return tasks[idx]
+export const updateTask = async (id: string, updates: TaskUpdate) => {
+  const task = await repository.update(id, updates)
+  if (task) publishTaskEvent({ type: 'updated', userId: task.userId, task })
+  return task
 }
 
-export const deleteTask = (id: string) => {
-  const idx = tasks.findIndex((t) => t.id === id)
-  if (idx === -1) return false
-  tasks.splice(idx, 1)
-  return true
+export const deleteTask = async (id: string, userId: string) => {
+  if (!(await getTask(id, userId))) return false
+  const deleted = await repository.delete(id)
+  if (deleted) publishTaskEvent({ type: 'deleted', userId, id })
+  return deleted
 }
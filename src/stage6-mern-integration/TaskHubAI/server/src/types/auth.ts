@@ -0,0 +1,14 @@
+export interface AuthUser {
+  id: string
+  email: string
+  name?: string
+  via: 'jwt' | 'apiKey' // how the current request authenticated
+}
+
+export interface ApiKeySummary {
+  id: string
+  name: string
+  prefix: string // first characters of the key, to tell keys apart
+  createdAt: Date
+  lastUsedAt?: Date
+}
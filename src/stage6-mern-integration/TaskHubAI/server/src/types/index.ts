@@ -1 +1,4 @@
+export * from './auth'
+export * from './pagination'
+export * from './session'
 export * from './task'
@@ -0,0 +1,12 @@
+export interface PageQuery {
+  page: number // 1-based
+  limit: number
+}
+
+export interface Paginated<T> {
+  items: T[]
+  page: number
+  limit: number
+  total: number
+  totalPages: number
+}
@@ -0,0 +1,22 @@
+import { PageQuery } from './pagination'
+
+export interface ChatSessionSummary {
+  id: string // the client-facing sessionId, not the Mongo _id
+  userId?: string
+  title: string
+  messageCount: number
+  lastMessageAt?: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface SessionMessage {
+  id: string
+  role: 'human' | 'ai'
+  content: string
+  createdAt: Date
+}
+
+export interface SessionListQuery extends PageQuery {
+  userId?: string
+}
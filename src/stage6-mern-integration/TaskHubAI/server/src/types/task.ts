@@ -1,9 +1,32 @@
+import { PageQuery } from './pagination'
+
+export type TaskStatus = 'pending' | 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
+
+export const TASK_STATUSES: TaskStatus[] = ['pending', 'queued', 'running', 'completed', 'failed', 'cancelled']
+
 export interface Task {
   id: string
+  userId: string // owner
   title: string
   description?: string
-  status: 'pending' | 'running' | 'completed' | 'failed'
+  status: TaskStatus
   result?: any
+  attempts: number // runs started, including retries
   createdAt: Date
   updatedAt: Date
 }
+
+export type TaskSortField = 'createdAt' | 'updatedAt' | 'title' | 'status'
+
+export interface TaskListQuery extends PageQuery {
+  userId?: string
+  status?: TaskStatus
+  sortBy: TaskSortField
+  sortOrder: 'asc' | 'desc'
+}
+
+export type TaskEvent = { userId: string } & ( // only the owner's streams receive it
+  | { type: 'created' | 'updated'; task: Task }
+  | { type: 'deleted'; id: string }
+  | { type: 'output'; id: string; chunk: string } // LLM tokens of a running task
+)
@@ -2,13 +2,15 @@ export interface ApiResponse<T = any> {
   success: boolean
   message?: string
   data?: T
+  meta?: Record<string, any> // e.g. pagination
   error?: any
 }
 
-export const successResponse = <T>(data: T, message?: string): ApiResponse<T> => ({
+export const successResponse = <T>(data: T, message?: string, meta?: Record<string, any>): ApiResponse<T> => ({
   success: true,
   message,
   data,
+  meta,
 })
 
 export const errorResponse = (error: any, message?: string): ApiResponse => ({
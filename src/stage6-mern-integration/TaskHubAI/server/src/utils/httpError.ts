@@ -0,0 +1,11 @@
+/**
+ * Error with an HTTP status, picked up by the error handler middleware
+ */
+export class HttpError extends Error {
+  statusCode: number
+
+  constructor(statusCode: number, message: string) {
+    super(message)
+    this.statusCode = statusCode
+  }
+}
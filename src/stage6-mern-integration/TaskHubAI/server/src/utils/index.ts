@@ -1,2 +1,4 @@
 export * from './apiResponse'
 export * from './asyncHandler'
+export * from './httpError'
+export * from './pagination'
@@ -0,0 +1,26 @@
+import { Request } from 'express'
+import { PageQuery, Paginated } from '../types'
+import { HttpError } from './httpError'
+
+export const MAX_PAGE_LIMIT = 100
+
+/**
+ * Read and validate `?page=&limit=`
+ */
+export const parsePageQuery = (query: Request['query'], defaultLimit = 20): PageQuery => {
+  const page = Number(query.page ?? 1)
+  const limit = Number(query.limit ?? defaultLimit)
+  if (!Number.isInteger(page) || page < 1) throw new HttpError(400, 'page must be a positive integer')
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_LIMIT) {
+    throw new HttpError(400, `limit must be an integer between 1 and ${MAX_PAGE_LIMIT}`)
+  }
+  return { page, limit }
+}
+
+export const toPaginated = <T>(items: T[], total: number, { page, limit }: PageQuery): Paginated<T> => ({
+  items,
+  page,
+  limit,
+  total,
+  totalPages: Math.ceil(total / limit),
+})